@@ -0,0 +1,237 @@
+import {
+  type FieldDefinition,
+  ParquetSchema,
+  ParquetWriter,
+} from "@dsnp/parquetjs";
+import * as fs from "fs";
+import { vol } from "memfs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  evolveSchema,
+  fromParquetSchema,
+  readExistingRows,
+  readExistingSchema,
+  temporaryPath,
+} from "./append.js";
+import { coerceRecord } from "./coerce.js";
+import type { JsonRecord } from "./index.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+describe("fromParquetSchema", () => {
+  it("should convert a Parquet schema into field definitions", () => {
+    const fields = fromParquetSchema(
+      {
+        id: { type: "INT64", optional: false, repeated: false },
+        tags: { type: "UTF8", optional: false, repeated: true },
+        address: {
+          optional: true,
+          repeated: false,
+          fields: { city: { type: "UTF8", optional: true, repeated: false } },
+        },
+      },
+      "SNAPPY",
+      "/out.parquet",
+    );
+
+    expect(fields).toEqual({
+      id: { type: "INT64", compression: "SNAPPY", optional: false },
+      tags: { type: "UTF8", compression: "SNAPPY", repeated: true },
+      address: {
+        optional: true,
+        fields: {
+          city: { type: "UTF8", compression: "SNAPPY", optional: true },
+        },
+      },
+    });
+  });
+
+  it("should reject column types the merger cannot write", () => {
+    expect(() =>
+      fromParquetSchema(
+        { raw: { type: "BYTE_ARRAY", optional: true } },
+        "UNCOMPRESSED",
+        "/out.parquet",
+      ),
+    ).toThrow(
+      'Unsupported column type BYTE_ARRAY for field "raw" in /out.parquet',
+    );
+  });
+});
+
+describe("evolveSchema", () => {
+  const existing = {
+    id: {
+      type: "INT64" as const,
+      compression: "GZIP" as const,
+      optional: false,
+    },
+    score: {
+      type: "INT64" as const,
+      compression: "GZIP" as const,
+      optional: true,
+    },
+    day: {
+      type: "DATE" as const,
+      compression: "GZIP" as const,
+      optional: true,
+    },
+    note: {
+      type: "UTF8" as const,
+      compression: "GZIP" as const,
+      optional: true,
+    },
+  };
+
+  it("should widen existing columns and append new ones", () => {
+    const { fields, changes } = evolveSchema(
+      existing,
+      {
+        id: { type: "INT64", compression: "GZIP", optional: true },
+        score: { type: "DOUBLE", compression: "GZIP", optional: true },
+        day: { type: "TIMESTAMP_MILLIS", compression: "GZIP", optional: true },
+        extra: { type: "BOOLEAN", compression: "GZIP", optional: true },
+      },
+      "error",
+      "/out.parquet",
+    );
+
+    expect(fields).toEqual({
+      id: { type: "INT64", compression: "GZIP", optional: true },
+      score: { type: "DOUBLE", compression: "GZIP", optional: true },
+      day: { type: "TIMESTAMP_MILLIS", compression: "GZIP", optional: true },
+      note: { type: "UTF8", compression: "GZIP", optional: true },
+      extra: { type: "BOOLEAN", compression: "GZIP", optional: true },
+    });
+    expect(changes).toEqual([
+      'Field "score" widened from INT64 to DOUBLE to fit the new input',
+      'Field "day" widened from DATE to TIMESTAMP_MILLIS to fit the new input',
+      'Field "extra" added to /out.parquet',
+    ]);
+  });
+
+  it("should resolve other mixes by the type conflict policy", () => {
+    const incoming = {
+      score: {
+        type: "UTF8" as const,
+        compression: "GZIP" as const,
+        optional: true,
+      },
+    };
+
+    expect(() =>
+      evolveSchema(existing, incoming, "error", "/out.parquet"),
+    ).toThrow(
+      'Type conflict for field "score": INT64 in /out.parquet vs UTF8 in the new input',
+    );
+
+    const { fields, changes } = evolveSchema(
+      existing,
+      incoming,
+      "string",
+      "/out.parquet",
+    );
+    expect(fields.score).toEqual({
+      type: "UTF8",
+      compression: "GZIP",
+      optional: true,
+    });
+    expect(changes).toEqual([
+      'Field "score" widened from INT64 to UTF8: mixed INT64 and UTF8 values',
+    ]);
+  });
+});
+
+describe("readExistingSchema", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  it("should return null when the output does not exist yet", async () => {
+    expect(await readExistingSchema("/out.parquet", "UNCOMPRESSED")).toBeNull();
+  });
+});
+
+describe("readExistingRows", () => {
+  // parquetjs reads and writes files through fs, which is not mocked
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "append-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function writeRows(
+    file: string,
+    fields: Record<string, FieldDefinition>,
+    rows: JsonRecord[],
+  ): Promise<void> {
+    const writer = await ParquetWriter.openFile(
+      new ParquetSchema(fields),
+      file,
+    );
+    for (const row of rows) await writer.appendRow(row);
+    await writer.close();
+  }
+
+  async function readRows(
+    file: string,
+    fields: Record<string, FieldDefinition>,
+  ): Promise<JsonRecord[]> {
+    const rows: JsonRecord[] = [];
+    for await (const row of readExistingRows(file, fields)) rows.push(row);
+    return rows;
+  }
+
+  it("should keep TIMESTAMP_MICROS values exact when rows are rewritten", async () => {
+    const fields: Record<string, FieldDefinition> = {
+      at: { type: "TIMESTAMP_MICROS", optional: true },
+      events: {
+        repeated: true,
+        fields: { at: { type: "TIMESTAMP_MICROS" } },
+      },
+    };
+    const rows = [
+      { at: 1705312800123456n, events: [{ at: 1705312800000001n }] },
+      { at: null, events: null },
+    ];
+    const existing = path.join(directory, "existing.parquet");
+    const rewritten = path.join(directory, "rewritten.parquet");
+    await writeRows(existing, fields, rows);
+
+    await writeRows(
+      rewritten,
+      fields,
+      (await readRows(existing, fields)).map((row) =>
+        coerceRecord(row, fields),
+      ),
+    );
+
+    expect(await readRows(rewritten, fields)).toEqual(rows);
+  });
+
+  it("should read TIMESTAMP_MICROS columns widened to UTF8 as dates", async () => {
+    const existing = path.join(directory, "existing.parquet");
+    await writeRows(existing, { at: { type: "TIMESTAMP_MICROS" } }, [
+      { at: 1705312800123456n },
+    ]);
+
+    expect(await readRows(existing, { at: { type: "UTF8" } })).toEqual([
+      { at: new Date("2024-01-15T10:00:00.123Z") },
+    ]);
+  });
+});
+
+describe("temporaryPath", () => {
+  it("should place the temporary file next to the output", () => {
+    expect(temporaryPath("/data/out.parquet")).toBe(
+      `/data/.out.parquet.${process.pid}.tmp`,
+    );
+  });
+});
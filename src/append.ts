@@ -0,0 +1,298 @@
+import {
+  type FieldDefinition,
+  ParquetReader,
+  type ParquetType,
+  type SchemaDefinition,
+} from "@dsnp/parquetjs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type {
+  CompressionType,
+  JsonRecord,
+  TypeConflictPolicy,
+} from "./index.js";
+
+/**
+ * Result of evolving an existing output schema to fit newly inferred fields,
+ * with a description of every change made to the existing columns.
+ */
+export interface SchemaEvolution {
+  fields: Record<string, FieldDefinition>;
+  changes: string[];
+}
+
+const SUPPORTED_TYPES = new Set<string>([
+  "UTF8",
+  "BOOLEAN",
+  "INT32",
+  "INT64",
+  "FLOAT",
+  "DOUBLE",
+  "DATE",
+  "TIMESTAMP_MILLIS",
+  "TIMESTAMP_MICROS",
+]);
+
+const NUMERIC_TYPES = new Set<string>(["INT32", "INT64", "FLOAT", "DOUBLE"]);
+const INTEGER_TYPES = new Set<string>(["INT32", "INT64"]);
+
+const TEMPORAL_PRECISION: Record<string, number> = {
+  DATE: 0,
+  TIMESTAMP_MILLIS: 1,
+  TIMESTAMP_MICROS: 2,
+};
+
+/**
+ * Reads the field definitions of an existing Parquet file, or returns null
+ * when the file does not exist. Columns are given the requested compression
+ * since the combined output is rewritten with it.
+ */
+export async function readExistingSchema(
+  file: string,
+  compression: CompressionType,
+): Promise<Record<string, FieldDefinition> | null> {
+  const stat = await fs.stat(file).catch(() => null);
+  if (!stat) return null;
+
+  const reader = await ParquetReader.openFile(file);
+  try {
+    return fromParquetSchema(reader.getSchema().schema, compression, file);
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Streams the rows of an existing Parquet file. parquetjs reads
+ * TIMESTAMP_MICROS values back as millisecond `Date`s, so columns that stay
+ * TIMESTAMP_MICROS in the output `fields` are read as their raw microsecond
+ * counts instead, which are written back unchanged.
+ */
+export async function* readExistingRows(
+  file: string,
+  fields: Record<string, FieldDefinition>,
+): AsyncGenerator<JsonRecord> {
+  const reader = await ParquetReader.openFile(file);
+  for (const column of reader.getSchema().fieldList) {
+    if (
+      column.originalType === "TIMESTAMP_MICROS" &&
+      findField(fields, column.path)?.type === "TIMESTAMP_MICROS"
+    ) {
+      column.originalType = undefined;
+    }
+  }
+  try {
+    for await (const row of reader) {
+      yield row as JsonRecord;
+    }
+  } finally {
+    await reader.close();
+  }
+}
+
+function findField(
+  fields: Record<string, FieldDefinition>,
+  fieldPath: string[],
+): FieldDefinition | undefined {
+  let definition: FieldDefinition | undefined = fields[fieldPath[0]];
+  for (const name of fieldPath.slice(1)) {
+    definition = definition?.fields?.[name];
+  }
+  return definition;
+}
+
+/**
+ * Converts a schema read from a Parquet file into field definitions in the
+ * form inference produces.
+ */
+export function fromParquetSchema(
+  schema: SchemaDefinition,
+  compression: CompressionType,
+  source: string,
+  prefix = "",
+): Record<string, FieldDefinition> {
+  const fields: Record<string, FieldDefinition> = {};
+  for (const [name, definition] of Object.entries(schema)) {
+    const repetition: FieldDefinition = definition.repeated
+      ? { repeated: true }
+      : { optional: definition.optional !== false };
+
+    if (definition.fields) {
+      fields[name] = {
+        ...repetition,
+        fields: fromParquetSchema(
+          definition.fields,
+          compression,
+          source,
+          `${prefix}${name}.`,
+        ),
+      };
+      continue;
+    }
+    if (!definition.type || !SUPPORTED_TYPES.has(definition.type)) {
+      throw new Error(
+        `Unsupported column type ${definition.type} for field "${prefix}${name}" in ${source}`,
+      );
+    }
+    fields[name] = { type: definition.type, compression, ...repetition };
+  }
+  return fields;
+}
+
+/**
+ * Evolves the schema of an existing output so that it can also hold the
+ * newly inferred fields. New fields are appended as optional columns, and a
+ * column whose type differs is widened the way inference widens types:
+ * integers to DOUBLE, dates to finer timestamps, temporal types to UTF8, and
+ * any other mix according to the type conflict policy.
+ *
+ * Throws when the schemas cannot be reconciled, listing every conflict.
+ */
+export function evolveSchema(
+  existing: Record<string, FieldDefinition>,
+  incoming: Record<string, FieldDefinition>,
+  typeConflict: TypeConflictPolicy,
+  source: string,
+): SchemaEvolution {
+  const changes: string[] = [];
+  const conflicts: string[] = [];
+  const fields = evolveFields(
+    existing,
+    incoming,
+    typeConflict,
+    source,
+    "",
+    changes,
+    conflicts,
+  );
+  if (conflicts.length > 0) {
+    throw new Error(conflicts.join("\n"));
+  }
+  return { fields, changes };
+}
+
+function evolveFields(
+  existing: Record<string, FieldDefinition>,
+  incoming: Record<string, FieldDefinition>,
+  typeConflict: TypeConflictPolicy,
+  source: string,
+  prefix: string,
+  changes: string[],
+  conflicts: string[],
+): Record<string, FieldDefinition> {
+  const fields: Record<string, FieldDefinition> = {};
+
+  for (const [name, current] of Object.entries(existing)) {
+    const fieldPath = `${prefix}${name}`;
+    const next = incoming[name];
+    if (!next) {
+      // Columns missing from the new input hold nulls for the new rows
+      fields[name] = current.repeated
+        ? current
+        : { ...current, optional: true };
+      continue;
+    }
+
+    if (current.fields && next.fields && current.repeated === next.repeated) {
+      fields[name] = {
+        ...(current.repeated ? { repeated: true } : { optional: true }),
+        fields: evolveFields(
+          current.fields,
+          next.fields,
+          typeConflict,
+          source,
+          `${fieldPath}.`,
+          changes,
+          conflicts,
+        ),
+      };
+      continue;
+    }
+
+    const from = describeField(current);
+    const to = describeField(next);
+    const type =
+      Boolean(current.repeated) === Boolean(next.repeated) &&
+      !current.fields &&
+      !next.fields
+        ? widenType(current.type as ParquetType, next.type as ParquetType)
+        : null;
+
+    if (type) {
+      const repetition: FieldDefinition = current.repeated
+        ? { repeated: true }
+        : { optional: current.optional !== false || next.optional !== false };
+      fields[name] = { type, compression: next.compression, ...repetition };
+      if (type !== current.type) {
+        changes.push(
+          `Field "${fieldPath}" widened from ${from} to ${type} to fit the new input`,
+        );
+      }
+    } else if (typeConflict === "error") {
+      conflicts.push(
+        `Type conflict for field "${fieldPath}": ${from} in ${source} vs ${to} in the new input`,
+      );
+    } else {
+      // Existing values are kept as their string or JSON form
+      fields[name] = {
+        type: "UTF8",
+        compression: next.compression,
+        optional: true,
+      };
+      changes.push(
+        `Field "${fieldPath}" widened from ${from} to UTF8: mixed ${from} and ${to} values`,
+      );
+    }
+  }
+
+  for (const [name, next] of Object.entries(incoming)) {
+    if (name in existing) continue;
+    // Existing rows hold nulls for columns that only the new input has
+    fields[name] = next.repeated ? next : { ...next, optional: true };
+    changes.push(`Field "${prefix}${name}" added to ${source}`);
+  }
+
+  return fields;
+}
+
+function widenType(
+  current: ParquetType,
+  next: ParquetType,
+): ParquetType | null {
+  if (current === next) return current;
+
+  if (NUMERIC_TYPES.has(current) && NUMERIC_TYPES.has(next)) {
+    return INTEGER_TYPES.has(current) && INTEGER_TYPES.has(next)
+      ? "INT64"
+      : "DOUBLE";
+  }
+  if (current in TEMPORAL_PRECISION && next in TEMPORAL_PRECISION) {
+    return TEMPORAL_PRECISION[next] > TEMPORAL_PRECISION[current]
+      ? next
+      : current;
+  }
+  // Every temporal value has a string form, so no data is lost
+  if (
+    (current in TEMPORAL_PRECISION && next === "UTF8") ||
+    (current === "UTF8" && next in TEMPORAL_PRECISION)
+  ) {
+    return "UTF8";
+  }
+  return null;
+}
+
+function describeField(definition: FieldDefinition): string {
+  const type = definition.fields ? "GROUP" : (definition.type ?? "UTF8");
+  return definition.repeated ? `repeated ${type}` : type;
+}
+
+/**
+ * Returns a temporary path next to the given file, so that renaming it over
+ * the file is atomic.
+ */
+export function temporaryPath(file: string): string {
+  return path.join(
+    path.dirname(file),
+    `.${path.basename(file)}.${process.pid}.tmp`,
+  );
+}
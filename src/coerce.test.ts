@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+
+import { coerceRecord } from "./coerce.js";
+
+describe("coerceRecord", () => {
+  it("should coerce scalars to the declared types", () => {
+    const result = coerceRecord(
+      {
+        id: "42",
+        ratio: "0.5",
+        small: 7,
+        active: "true",
+        label: 12,
+        seen_at: "2024-01-15T10:00:00Z",
+        day: "2024-01-15",
+        epoch: 1705312800000,
+        extra: { kept: true },
+      },
+      {
+        id: { type: "INT64", optional: true },
+        ratio: { type: "DOUBLE", optional: true },
+        small: { type: "INT32", optional: true },
+        active: { type: "BOOLEAN", optional: true },
+        label: { type: "UTF8", optional: true },
+        seen_at: { type: "TIMESTAMP_MILLIS", optional: true },
+        day: { type: "DATE", optional: true },
+        epoch: { type: "TIMESTAMP_MICROS", optional: true },
+      },
+    );
+
+    expect(result).toEqual({
+      id: 42,
+      ratio: 0.5,
+      small: 7,
+      active: true,
+      label: "12",
+      seen_at: new Date("2024-01-15T10:00:00Z"),
+      day: new Date("2024-01-15T00:00:00Z"),
+      epoch: 1705312800000000n,
+      extra: '{"kept":true}',
+    });
+  });
+
+  it("should name the field and value that cannot be coerced", () => {
+    expect(() =>
+      coerceRecord({ id: "abc" }, { id: { type: "INT64", optional: true } }),
+    ).toThrow('Cannot coerce value "abc" of field "id" to INT64');
+    expect(() =>
+      coerceRecord({ id: 1.5 }, { id: { type: "INT64", optional: true } }),
+    ).toThrow('Cannot coerce value 1.5 of field "id" to INT64');
+    expect(() =>
+      coerceRecord({ id: 2 ** 40 }, { id: { type: "INT32", optional: true } }),
+    ).toThrow('field "id" to INT32');
+    expect(() =>
+      coerceRecord(
+        { at: "yesterday" },
+        { at: { type: "TIMESTAMP_MILLIS", optional: true } },
+      ),
+    ).toThrow(
+      'Cannot coerce value "yesterday" of field "at" to TIMESTAMP_MILLIS',
+    );
+  });
+
+  it("should reject TIMESTAMP_MICROS values before 1970", () => {
+    const fields = {
+      at: { type: "TIMESTAMP_MICROS" as const, optional: true },
+    };
+
+    expect(() =>
+      coerceRecord({ at: "1969-07-20T20:17:40.123456Z" }, fields),
+    ).toThrow(
+      'Cannot coerce value "1969-07-20T20:17:40.123456Z" of field "at" to TIMESTAMP_MICROS, which cannot hold values before 1970',
+    );
+    expect(coerceRecord({ at: "1970-01-01T00:00:00.000001Z" }, fields)).toEqual(
+      { at: 1n },
+    );
+  });
+
+  it("should keep RLE-encoded integers within the column bit width", () => {
+    const fields = {
+      level: {
+        type: "INT64" as const,
+        optional: true,
+        encoding: "RLE" as const,
+        typeLength: 3,
+      },
+    };
+    expect(coerceRecord({ level: 7n }, fields)).toEqual({ level: 7 });
+    expect(() => coerceRecord({ level: 8 }, fields)).toThrow(
+      'Cannot coerce value 8 of field "level" to INT64 with 3-bit RLE encoding',
+    );
+    expect(() => coerceRecord({ level: -1 }, fields)).toThrow(
+      "3-bit RLE encoding",
+    );
+  });
+
+  it("should reject missing values for required fields", () => {
+    expect(() =>
+      coerceRecord({ id: null }, { id: { type: "INT64", optional: false } }),
+    ).toThrow('Missing value for required field "id"');
+  });
+
+  it("should report the path of nested fields", () => {
+    expect(() =>
+      coerceRecord(
+        { items: [{ qty: "two" }] },
+        {
+          items: {
+            repeated: true,
+            fields: { qty: { type: "INT64", optional: true } },
+          },
+        },
+      ),
+    ).toThrow('Cannot coerce value "two" of field "items[].qty" to INT64');
+  });
+});
@@ -0,0 +1,186 @@
+import type { FieldDefinition } from "@dsnp/parquetjs";
+import type { JsonRecord } from "./index.js";
+import {
+  detectTemporalType,
+  isTemporalType,
+  TEMPORAL_FORMATS,
+  toTemporalValue,
+} from "./temporal.js";
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+/**
+ * Shapes a record's values to match the Parquet field definitions: nested
+ * groups and lists are rebuilt, objects in UTF8 fields become JSON strings and
+ * scalars are coerced to the declared type. Fields without a definition keep
+ * their value, with objects and arrays stringified.
+ *
+ * Throws when a value cannot be coerced, naming the field and the value.
+ */
+export function coerceRecord(
+  record: JsonRecord,
+  definitions: Record<string, FieldDefinition>,
+  prefix = "",
+): JsonRecord {
+  const coerced: JsonRecord = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    coerced[key] = coerceValue(value, definitions[key], `${prefix}${key}`);
+  }
+
+  return coerced;
+}
+
+/**
+ * Coerces a single value to its field definition. See `coerceRecord`.
+ */
+export function coerceValue(
+  value: unknown,
+  definition: FieldDefinition | undefined,
+  path: string,
+): unknown {
+  if (value === null || value === undefined) {
+    if (definition && definition.optional === false && !definition.repeated) {
+      throw new Error(`Missing value for required field "${path}"`);
+    }
+    return null;
+  }
+  if (definition?.repeated) {
+    // Parquet lists cannot hold nulls, so null elements are dropped
+    const element = { ...definition, repeated: false, optional: true };
+    return (Array.isArray(value) ? value : [value])
+      .filter((item) => item !== null && item !== undefined)
+      .map((item) => coerceValue(item, element, `${path}[]`));
+  }
+  if (definition?.fields) {
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw coercionError(value, path, "a group");
+    }
+    return coerceRecord(value as JsonRecord, definition.fields, `${path}.`);
+  }
+  if (!definition?.type) {
+    // Convert objects/arrays to JSON strings
+    return typeof value === "object" && !(value instanceof Date)
+      ? toJson(value)
+      : value;
+  }
+
+  const type = definition.type;
+  switch (type) {
+    case "UTF8":
+      if (typeof value === "string") return value;
+      // Objects/arrays become JSON strings; widened scalars their string form
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === "object" ? toJson(value) : String(value);
+    case "INT32":
+    case "INT64": {
+      // INT64 values read back from Parquet are bigints
+      if (
+        typeof value === "bigint" &&
+        type === "INT64" &&
+        definition.encoding !== "RLE"
+      ) {
+        return value;
+      }
+      const number = toNumber(value);
+      if (number === null || !Number.isInteger(number)) {
+        throw coercionError(value, path, type);
+      }
+      if (type === "INT32" && (number < INT32_MIN || number > INT32_MAX)) {
+        throw coercionError(value, path, type);
+      }
+      // RLE bit-packs values into the column's bit width
+      if (
+        definition.encoding === "RLE" &&
+        (number < 0 || number >= 2 ** (definition.typeLength ?? 31))
+      ) {
+        throw coercionError(
+          value,
+          path,
+          `${type} with ${definition.typeLength ?? 31}-bit RLE encoding`,
+        );
+      }
+      return number;
+    }
+    case "FLOAT":
+    case "DOUBLE": {
+      const number = toNumber(value);
+      if (number === null) throw coercionError(value, path, type);
+      return number;
+    }
+    case "BOOLEAN":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      throw coercionError(value, path, type);
+    default:
+      if (isTemporalType(type)) {
+        if (value instanceof Date) return value;
+        // Numbers are taken as epoch milliseconds
+        if (typeof value === "number" && type === "TIMESTAMP_MILLIS") {
+          return new Date(value);
+        }
+        if (typeof value === "number" && type === "TIMESTAMP_MICROS") {
+          return checkMicros(BigInt(Math.trunc(value)) * 1000n, value, path);
+        }
+        // Raw microseconds, as read back from an existing output
+        if (typeof value === "bigint" && type === "TIMESTAMP_MICROS") {
+          return checkMicros(value, value, path);
+        }
+        if (
+          typeof value === "string" &&
+          detectTemporalType(value, TEMPORAL_FORMATS) !== null
+        ) {
+          const temporal = toTemporalValue(type, value);
+          return typeof temporal === "bigint"
+            ? checkMicros(temporal, value, path)
+            : temporal;
+        }
+        throw coercionError(value, path, type);
+      }
+      return value;
+  }
+}
+
+/**
+ * The Parquet writer rejects negative TIMESTAMP_MICROS values, so a timestamp
+ * before 1970 fails its record here instead of the whole run.
+ */
+function checkMicros(micros: bigint, value: unknown, path: string): bigint {
+  if (micros < 0n) {
+    throw coercionError(
+      value,
+      path,
+      "TIMESTAMP_MICROS, which cannot hold values before 1970",
+    );
+  }
+  return micros;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+/**
+ * Serializes a value as JSON, writing bigints (as read back from INT64
+ * columns) as plain numbers.
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item !== "bigint") return item;
+    return Number.isSafeInteger(Number(item)) ? Number(item) : String(item);
+  });
+}
+
+function coercionError(value: unknown, path: string, target: string): Error {
+  const shown = typeof value === "bigint" ? String(value) : toJson(value);
+  return new Error(
+    `Cannot coerce value ${shown} of field "${path}" to ${target}`,
+  );
+}
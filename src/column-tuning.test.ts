@@ -0,0 +1,173 @@
+import { vol } from "memfs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  applyColumnConfig,
+  loadColumnConfig,
+  tuneColumns,
+} from "./column-tuning.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+const fields = {
+  id: { type: "INT64" as const, optional: false, compression: "GZIP" as const },
+  status: {
+    type: "INT32" as const,
+    optional: true,
+    compression: "GZIP" as const,
+  },
+  active: {
+    type: "BOOLEAN" as const,
+    optional: true,
+    compression: "GZIP" as const,
+  },
+  body: { type: "UTF8" as const, optional: true, compression: "GZIP" as const },
+  address: {
+    optional: true,
+    fields: {
+      city: {
+        type: "UTF8" as const,
+        optional: true,
+        compression: "GZIP" as const,
+      },
+    },
+  },
+};
+
+describe("loadColumnConfig", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  it("should load JSON and YAML column configs", async () => {
+    vol.fromJSON({
+      "/columns.json": JSON.stringify({
+        columns: { body: { compression: "brotli" } },
+      }),
+      "/columns.yaml": "columns:\n  active:\n    encoding: RLE\n",
+    });
+
+    expect(await loadColumnConfig("/columns.json")).toEqual({
+      body: { compression: "brotli" },
+    });
+    expect(await loadColumnConfig("/columns.yaml")).toEqual({
+      active: { encoding: "RLE" },
+    });
+  });
+
+  it("should reject documents without columns", async () => {
+    vol.fromJSON({
+      "/columns.json": JSON.stringify({ body: "BROTLI" }),
+      "/invalid.json": JSON.stringify({ columns: { body: "BROTLI" } }),
+    });
+
+    await expect(loadColumnConfig("/columns.json")).rejects.toThrow(
+      'Invalid /columns.json: expected an object with "columns"',
+    );
+    await expect(loadColumnConfig("/invalid.json")).rejects.toThrow(
+      'column "body" must be an object',
+    );
+  });
+});
+
+describe("applyColumnConfig", () => {
+  it("should override compression and encoding of top-level and nested columns", () => {
+    const tuned = applyColumnConfig(
+      fields,
+      {
+        body: { compression: "brotli" },
+        "address.city": { compression: "snappy" },
+        status: { encoding: "rle" },
+      },
+      "/columns.json",
+    );
+
+    expect(tuned.body.compression).toBe("BROTLI");
+    expect(tuned.address.fields?.city.compression).toBe("SNAPPY");
+    expect(tuned.status).toMatchObject({ encoding: "RLE", typeLength: 31 });
+    // The input fields are left untouched
+    expect(fields.body.compression).toBe("GZIP");
+  });
+
+  it("should name the column and the problem", () => {
+    expect(() =>
+      applyColumnConfig(fields, { missing: {} }, "/columns.json"),
+    ).toThrow('Invalid /columns.json: column "missing" not found in schema');
+    expect(() =>
+      applyColumnConfig(
+        fields,
+        { address: { compression: "GZIP" } },
+        "/columns.json",
+      ),
+    ).toThrow('column "address" is a group, not a column');
+    expect(() =>
+      applyColumnConfig(fields, { body: { encoding: "RLE" } }, "/columns.json"),
+    ).toThrow('column "body" cannot use RLE encoding with type UTF8');
+  });
+});
+
+describe("tuneColumns", () => {
+  it("should pick encodings and compression from field statistics", () => {
+    const { fields: tuned, choices } = tuneColumns(fields, {
+      id: {
+        nullCount: 0,
+        types: { integer: 5000 },
+        distinctCount: 1000,
+        distinctCountCapped: true,
+        min: 1,
+        max: 5000,
+      },
+      status: {
+        nullCount: 0,
+        types: { integer: 5000 },
+        distinctCount: 3,
+        min: 0,
+        max: 5,
+      },
+      active: { nullCount: 0, types: { boolean: 5000 }, distinctCount: 2 },
+      body: {
+        nullCount: 0,
+        types: { string: 5000 },
+        distinctCount: 1000,
+        distinctCountCapped: true,
+        averageLength: 1200,
+      },
+    });
+
+    expect(tuned.id).toEqual(fields.id);
+    expect(tuned.status).toMatchObject({ encoding: "RLE", typeLength: 3 });
+    expect(tuned.active).toMatchObject({
+      encoding: "RLE",
+      typeLength: 1,
+      compression: "UNCOMPRESSED",
+    });
+    expect(tuned.body.compression).toBe("BROTLI");
+    expect(choices.map((choice) => choice.field)).toEqual([
+      "status",
+      "active",
+      "body",
+    ]);
+    expect(choices[0].reason).toBe("3 distinct values from 0 to 5");
+  });
+
+  it("should leave integers that could fall outside the RLE range alone", () => {
+    const { choices } = tuneColumns(fields, {
+      status: {
+        nullCount: 0,
+        types: { integer: 2 },
+        distinctCount: 2,
+        min: -1,
+        max: 1,
+      },
+      id: {
+        nullCount: 0,
+        types: { integer: 1, string: 1 },
+        distinctCount: 2,
+        min: 1,
+        max: 1,
+      },
+    });
+
+    expect(choices).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import type { FieldDefinition, ParquetType } from "@dsnp/parquetjs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import type { FieldStats } from "./schema-export.js";
+import { isObject, parseColumnSettings } from "./schema-file.js";
+
+/**
+ * A compression or encoding picked for a column by `tuneColumns`.
+ */
+export interface ColumnChoice {
+  field: string;
+  compression?: string;
+  encoding?: string;
+  reason: string;
+}
+
+/** String columns averaging at least this many characters count as blobs */
+const LARGE_TEXT_LENGTH = 256;
+/** Integer columns with at most this many distinct values are run-length encoded */
+const LOW_CARDINALITY_LIMIT = 100;
+/** parquetjs' RLE encoder works on 32-bit integers */
+const RLE_MAX_VALUE = 2 ** 31 - 1;
+
+/**
+ * Loads a JSON or YAML column config file (chosen by the `.yaml`/`.yml`
+ * extension) of the form `{ columns: { <field>: { compression, encoding } } }`.
+ * Settings are validated once the column types are known, in
+ * `applyColumnConfig`.
+ */
+export async function loadColumnConfig(
+  file: string,
+): Promise<Record<string, Record<string, unknown>>> {
+  const content = await fs.readFile(file, "utf-8");
+  const extension = path.extname(file).toLowerCase();
+
+  let document: unknown;
+  try {
+    document =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse column config ${file}: ${error}`);
+  }
+
+  if (!isObject(document) || !isObject(document.columns)) {
+    throw new Error(`Invalid ${file}: expected an object with "columns"`);
+  }
+  const columns: Record<string, Record<string, unknown>> = {};
+  for (const [name, settings] of Object.entries(document.columns)) {
+    if (!isObject(settings)) {
+      throw new Error(`Invalid ${file}: column "${name}" must be an object`);
+    }
+    columns[name] = settings;
+  }
+  return columns;
+}
+
+/**
+ * Applies per-column settings from a column config to the schema fields,
+ * overriding the global compression and any automatic choices.
+ */
+export function applyColumnConfig(
+  fields: Record<string, FieldDefinition>,
+  columns: Record<string, Record<string, unknown>>,
+  source: string,
+): Record<string, FieldDefinition> {
+  const tuned = cloneFields(fields);
+
+  for (const [fieldPath, settings] of Object.entries(columns)) {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid ${source}: column "${fieldPath}" ${message}`);
+    };
+
+    const definition = findField(tuned, fieldPath);
+    if (!definition) return fail("not found in schema");
+    if (definition.fields) return fail("is a group, not a column");
+
+    // Drop an earlier RLE bit width in case the encoding changes
+    if (settings.encoding !== undefined) delete definition.typeLength;
+    Object.assign(
+      definition,
+      parseColumnSettings(settings, definition.type as ParquetType, fail),
+    );
+  }
+
+  return tuned;
+}
+
+/**
+ * Picks compression and encoding for top-level columns from the statistics
+ * gathered during inference:
+ *
+ * - BOOLEAN columns are run-length encoded and left uncompressed
+ * - Integer columns with few distinct, small non-negative values are
+ *   run-length encoded at the bit width their largest value needs
+ * - String columns with long values use BROTLI
+ */
+export function tuneColumns(
+  fields: Record<string, FieldDefinition>,
+  stats: Record<string, FieldStats>,
+): { fields: Record<string, FieldDefinition>; choices: ColumnChoice[] } {
+  const tuned = cloneFields(fields);
+  const choices: ColumnChoice[] = [];
+
+  for (const [name, definition] of Object.entries(tuned)) {
+    const fieldStats = stats[name];
+    if (!fieldStats || definition.fields || definition.repeated) continue;
+
+    if (definition.type === "BOOLEAN") {
+      Object.assign(definition, {
+        encoding: "RLE",
+        typeLength: 1,
+        compression: "UNCOMPRESSED",
+      });
+      choices.push({
+        field: name,
+        compression: "UNCOMPRESSED",
+        encoding: "RLE",
+        reason: "boolean values are bit-packed",
+      });
+    } else if (
+      (definition.type === "INT64" || definition.type === "INT32") &&
+      isLowCardinalityInteger(fieldStats)
+    ) {
+      const bitWidth = Math.max(
+        1,
+        Math.ceil(Math.log2((fieldStats.max ?? 0) + 1)),
+      );
+      Object.assign(definition, { encoding: "RLE", typeLength: bitWidth });
+      choices.push({
+        field: name,
+        encoding: "RLE",
+        reason: `${fieldStats.distinctCount} distinct values from ${fieldStats.min} to ${fieldStats.max}`,
+      });
+    } else if (
+      definition.type === "UTF8" &&
+      (fieldStats.averageLength ?? 0) >= LARGE_TEXT_LENGTH
+    ) {
+      definition.compression = "BROTLI";
+      choices.push({
+        field: name,
+        compression: "BROTLI",
+        reason: `values average ${fieldStats.averageLength} characters`,
+      });
+    }
+  }
+
+  return { fields: tuned, choices };
+}
+
+function isLowCardinalityInteger(stats: FieldStats): boolean {
+  // Values that arrived as strings or floats may coerce outside the range
+  const onlyIntegers = Object.keys(stats.types).every(
+    (type) => type === "integer",
+  );
+  return (
+    onlyIntegers &&
+    !stats.distinctCountCapped &&
+    (stats.distinctCount ?? Infinity) <= LOW_CARDINALITY_LIMIT &&
+    stats.min !== undefined &&
+    stats.max !== undefined &&
+    stats.min >= 0 &&
+    stats.max <= RLE_MAX_VALUE
+  );
+}
+
+function findField(
+  fields: Record<string, FieldDefinition>,
+  fieldPath: string,
+): FieldDefinition | undefined {
+  const [name, ...rest] = fieldPath.split(".");
+  const field = fields[name];
+  if (!field || rest.length === 0) return field;
+  return field.fields ? findField(field.fields, rest.join(".")) : undefined;
+}
+
+function cloneFields(
+  fields: Record<string, FieldDefinition>,
+): Record<string, FieldDefinition> {
+  const cloned: Record<string, FieldDefinition> = {};
+  for (const [name, definition] of Object.entries(fields)) {
+    cloned[name] = definition.fields
+      ? { ...definition, fields: cloneFields(definition.fields) }
+      : { ...definition };
+  }
+  return cloned;
+}
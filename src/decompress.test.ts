@@ -0,0 +1,70 @@
+import { Readable } from "node:stream";
+import * as zlib from "node:zlib";
+import { describe, expect, it } from "vitest";
+
+import {
+  createDecompressor,
+  detectCompression,
+  type InputCompression,
+  stripCompressionExtension,
+} from "./decompress.js";
+
+const TEXT = '{"id": 1}\n{"id": 2}\n';
+
+async function decompress(
+  compression: InputCompression,
+  data: Buffer,
+): Promise<string> {
+  const output: Buffer[] = [];
+  for await (const chunk of Readable.from([data]).pipe(
+    createDecompressor(compression),
+  )) {
+    output.push(chunk);
+  }
+  return Buffer.concat(output).toString();
+}
+
+describe("detectCompression", () => {
+  const plain = Buffer.from(TEXT);
+
+  it("should detect compression by file extension", () => {
+    expect(detectCompression("/data/a.jsonl.gz", plain)).toBe("gzip");
+    expect(detectCompression("/data/a.json.BR", plain)).toBe("brotli");
+    expect(detectCompression("/data/a.jsonl.zst", plain)).toBe("zstd");
+  });
+
+  it("should detect compression by leading bytes", () => {
+    expect(detectCompression("/data/a.json", zlib.gzipSync(plain))).toBe(
+      "gzip",
+    );
+    expect(
+      detectCompression("/data/a.json", Buffer.from([0x28, 0xb5, 0x2f, 0xfd])),
+    ).toBe("zstd");
+  });
+
+  it("should return null for uncompressed input", () => {
+    expect(detectCompression("/data/a.json", plain)).toBeNull();
+    expect(detectCompression("/data/a.json", Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe("stripCompressionExtension", () => {
+  it("should remove only a compression extension", () => {
+    expect(stripCompressionExtension("/data/a.jsonl.gz")).toBe("/data/a.jsonl");
+    expect(stripCompressionExtension("/data/a.json.ZST")).toBe("/data/a.json");
+    expect(stripCompressionExtension("/data/a.json")).toBe("/data/a.json");
+  });
+});
+
+describe("createDecompressor", () => {
+  it("should decompress gzip and brotli", async () => {
+    expect(await decompress("gzip", zlib.gzipSync(TEXT))).toBe(TEXT);
+    expect(await decompress("brotli", zlib.brotliCompressSync(TEXT))).toBe(
+      TEXT,
+    );
+  });
+
+  it.skipIf(!zlib.zstdCompressSync)("should decompress zstd", async () => {
+    expect(await decompress("zstd", zlib.zstdCompressSync(TEXT))).toBe(TEXT);
+  });
+});
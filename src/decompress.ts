@@ -0,0 +1,79 @@
+import type { Transform } from "node:stream";
+import * as zlib from "node:zlib";
+import * as path from "path";
+
+export type InputCompression = "gzip" | "brotli" | "zstd";
+
+/**
+ * Compressed input that is corrupt or breaks off. Like a syntax error, it
+ * rejects the rest of the file rather than failing the run.
+ */
+export class DecompressionError extends Error {
+  override name = "DecompressionError";
+}
+
+/**
+ * File extensions of compressed input, e.g. `events.jsonl.gz`.
+ */
+export const COMPRESSION_EXTENSIONS: Record<string, InputCompression> = {
+  ".gz": "gzip",
+  ".br": "brotli",
+  ".zst": "zstd",
+};
+
+/**
+ * Leading bytes of each format. Brotli has none, so it is only recognized by
+ * its extension.
+ */
+const MAGIC_BYTES: [InputCompression, number[]][] = [
+  ["gzip", [0x1f, 0x8b]],
+  ["zstd", [0x28, 0xb5, 0x2f, 0xfd]],
+];
+
+/**
+ * Detects the compression of a file from its extension, or else from its
+ * first bytes. Returns null for uncompressed input.
+ */
+export function detectCompression(
+  file: string,
+  head: Uint8Array,
+): InputCompression | null {
+  const byExtension = COMPRESSION_EXTENSIONS[path.extname(file).toLowerCase()];
+  if (byExtension) return byExtension;
+
+  for (const [compression, magic] of MAGIC_BYTES) {
+    if (magic.every((byte, i) => head[i] === byte)) return compression;
+  }
+  return null;
+}
+
+/**
+ * Removes a compression extension, so that `events.jsonl.gz` is named like
+ * the `events.jsonl` it holds.
+ */
+export function stripCompressionExtension(file: string): string {
+  const extension = path.extname(file);
+  return extension.toLowerCase() in COMPRESSION_EXTENSIONS
+    ? file.slice(0, -extension.length)
+    : file;
+}
+
+/**
+ * Creates a stream that decompresses the given format.
+ */
+export function createDecompressor(compression: InputCompression): Transform {
+  switch (compression) {
+    case "gzip":
+      return zlib.createGunzip();
+    case "brotli":
+      return zlib.createBrotliDecompress();
+    case "zstd":
+      // zstd joined node:zlib in Node.js 22.15
+      if (typeof zlib.createZstdDecompress !== "function") {
+        throw new Error(
+          `zstd input needs Node.js 22.15 or later (running ${process.version})`,
+        );
+      }
+      return zlib.createZstdDecompress();
+  }
+}
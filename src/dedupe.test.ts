@@ -0,0 +1,107 @@
+import { vol } from "memfs";
+import * as os from "os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  type DedupeOptions,
+  Deduplicator,
+  formatDedupePolicy,
+  parseDedupePolicy,
+} from "./dedupe.js";
+import type { JsonRecord } from "./index.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+const rows: JsonRecord[] = [
+  { id: 1, region: "eu", updated_at: new Date("2024-01-02"), v: "a" },
+  { id: 2, region: "eu", updated_at: new Date("2024-01-01"), v: "b" },
+  { id: 1, region: "us", updated_at: new Date("2024-01-01"), v: "c" },
+  { id: null, region: "eu", v: "d" },
+  { id: 1, region: "eu", updated_at: new Date("2024-01-01"), v: "e" },
+  { id: 2, region: "eu", updated_at: new Date("2024-01-03"), v: "f" },
+  { id: null, region: "eu", v: "g" },
+];
+
+/**
+ * Runs rows through a deduplicator, returning the `v` of each kept row.
+ */
+async function dedupe(
+  options: DedupeOptions,
+): Promise<{ kept: unknown[]; dropped: number }> {
+  const deduplicator = await Deduplicator.open(options);
+  try {
+    for (const row of rows) await deduplicator.add(row);
+    const kept: unknown[] = [];
+    for await (const row of deduplicator.keptRows()) kept.push(row.v);
+    return { kept, dropped: deduplicator.droppedCount };
+  } finally {
+    await deduplicator.close();
+  }
+}
+
+describe("parseDedupePolicy", () => {
+  it("should parse first, last and max policies", () => {
+    expect(parseDedupePolicy("first")).toEqual({ keep: "first" });
+    expect(parseDedupePolicy(" last ")).toEqual({ keep: "last" });
+    expect(parseDedupePolicy("max( updated_at )")).toEqual({
+      keep: "max",
+      field: "updated_at",
+    });
+    expect(formatDedupePolicy({ keep: "max", field: "updated_at" })).toBe(
+      "max(updated_at)",
+    );
+  });
+
+  it("should reject other policies", () => {
+    expect(() => parseDedupePolicy("min(updated_at)")).toThrow(
+      'Invalid dedupe policy "min(updated_at)"',
+    );
+    expect(() => parseDedupePolicy("max()")).toThrow("Invalid dedupe policy");
+  });
+});
+
+describe("Deduplicator", () => {
+  beforeEach(() => {
+    vol.mkdirSync(os.tmpdir(), { recursive: true });
+  });
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should keep one row per key in input order, and rows without a key", async () => {
+    const keys = ["id", "region"];
+    expect(await dedupe({ keys, policy: { keep: "first" } })).toEqual({
+      kept: ["a", "b", "c", "d", "g"],
+      dropped: 2,
+    });
+    expect(await dedupe({ keys, policy: { keep: "last" } })).toEqual({
+      kept: ["c", "d", "e", "f", "g"],
+      dropped: 2,
+    });
+    expect(
+      await dedupe({ keys, policy: { keep: "max", field: "updated_at" } }),
+    ).toEqual({ kept: ["a", "c", "d", "f", "g"], dropped: 2 });
+  });
+
+  it("should give the same result when the index spills to disk", async () => {
+    for (const policy of [
+      { keep: "first" as const },
+      { keep: "last" as const },
+      { keep: "max" as const, field: "updated_at" },
+    ]) {
+      expect(
+        await dedupe({ keys: ["id"], policy, maxKeysInMemory: 1 }),
+      ).toEqual(await dedupe({ keys: ["id"], policy }));
+    }
+  });
+
+  it("should remove its spill files when closed", async () => {
+    await dedupe({
+      keys: ["id"],
+      policy: { keep: "first" },
+      maxKeysInMemory: 1,
+    });
+    expect(vol.readdirSync(os.tmpdir())).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { JsonRecord } from "./index.js";
+import {
+  createSpillDirectory,
+  encodeSpillValues,
+  readSpill,
+  SpillWriter,
+} from "./spill.js";
+
+/**
+ * Which row of a key is kept: the first or last one read, or the one with
+ * the greatest value of a column.
+ */
+export type DedupePolicy =
+  | { keep: "first" }
+  | { keep: "last" }
+  | { keep: "max"; field: string };
+
+export interface DedupeOptions {
+  /** Columns whose values together identify a row */
+  keys: string[];
+  policy: DedupePolicy;
+  /** Keys held in memory before the index spills to disk */
+  maxKeysInMemory?: number;
+}
+
+/**
+ * The row currently kept for a key, by position, with its policy value.
+ */
+type IndexEntry = [key: string, ordinal: number, value: unknown];
+
+const DEFAULT_MAX_KEYS_IN_MEMORY = 1_000_000;
+
+/**
+ * Files that spilled index entries are spread across by key hash. Each is
+ * read back on its own, so the index needs about 1/256 of the memory it would
+ * need whole.
+ */
+const BUCKET_COUNT = 256;
+
+/**
+ * Parses a `first`, `last` or `max(<column>)` policy.
+ */
+export function parseDedupePolicy(spec: string): DedupePolicy {
+  const policy = spec.trim();
+  if (policy === "first" || policy === "last") return { keep: policy };
+
+  const max = /^max\(\s*([^()\s]+)\s*\)$/.exec(policy);
+  if (max) return { keep: "max", field: max[1] };
+
+  throw new Error(
+    `Invalid dedupe policy "${spec}": expected first, last or max(<column>)`,
+  );
+}
+
+/**
+ * Describes a policy as it is written on the command line.
+ */
+export function formatDedupePolicy(policy: DedupePolicy): string {
+  return policy.keep === "max" ? `max(${policy.field})` : policy.keep;
+}
+
+/**
+ * Drops rows whose key columns repeat those of another row, keeping one row
+ * per key as chosen by the policy.
+ *
+ * Rows are spilled to a temporary file as they are added, and an index maps
+ * each key to the position of its kept row. Once the index holds more than
+ * `maxKeysInMemory` keys, it is spread across bucket files by key hash and
+ * each bucket is resolved separately, so only the positions of the kept rows
+ * stay in memory, at one bit per row. The kept rows are then read back in
+ * the order they were added.
+ *
+ * Rows with a null or missing key column are always kept.
+ */
+export class Deduplicator {
+  private readonly index = new Map<string, IndexEntry>();
+  private readonly maxKeysInMemory: number;
+  private spilledBuckets = new Set<number>();
+  private kept = new Uint8Array(1024);
+  private rowCount = 0;
+  private keptCount = 0;
+
+  private constructor(
+    private readonly options: DedupeOptions,
+    private readonly directory: string,
+    private readonly rows: SpillWriter,
+  ) {
+    this.maxKeysInMemory =
+      options.maxKeysInMemory ?? DEFAULT_MAX_KEYS_IN_MEMORY;
+  }
+
+  static async open(options: DedupeOptions): Promise<Deduplicator> {
+    const directory = await createSpillDirectory("dedupe");
+    try {
+      const rows = await SpillWriter.create(path.join(directory, "rows"));
+      return new Deduplicator(options, directory, rows);
+    } catch (error) {
+      await fs.rm(directory, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Number of rows dropped as duplicates, known once the kept rows are read.
+   */
+  get droppedCount(): number {
+    return this.rowCount - this.keptCount;
+  }
+
+  async add(row: JsonRecord): Promise<void> {
+    const ordinal = this.rowCount++;
+    await this.rows.write(row);
+
+    const key = this.keyOf(row);
+    if (key === null) {
+      this.keep(ordinal);
+      return;
+    }
+    const value =
+      this.options.policy.keep === "max"
+        ? comparable(row[this.options.policy.field])
+        : null;
+    const current = this.index.get(key);
+    if (!current || this.wins([key, ordinal, value], current)) {
+      this.index.set(key, [key, ordinal, value]);
+    }
+    if (this.index.size >= this.maxKeysInMemory) {
+      await this.spillIndex();
+    }
+  }
+
+  /**
+   * Streams the kept rows in the order they were added. Call once, after the
+   * last row is added.
+   */
+  async *keptRows(): AsyncGenerator<JsonRecord> {
+    await this.rows.close();
+    await this.resolveIndex();
+
+    let ordinal = 0;
+    for await (const row of readSpill(this.rows.file)) {
+      if (this.isKept(ordinal++)) yield row as JsonRecord;
+    }
+  }
+
+  /**
+   * Removes the spill files.
+   */
+  async close(): Promise<void> {
+    await this.rows.close().catch(() => {});
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private keyOf(row: JsonRecord): string | null {
+    const values: unknown[] = [];
+    for (const name of this.options.keys) {
+      const value = row[name];
+      if (value === null || value === undefined) return null;
+      values.push(comparable(value));
+    }
+    return JSON.stringify(values, (_key, item) =>
+      typeof item === "bigint" ? `${item}n` : item,
+    );
+  }
+
+  /**
+   * Returns true when a candidate row replaces the kept row of its key.
+   */
+  private wins(candidate: IndexEntry, current: IndexEntry): boolean {
+    const [, ordinal, value] = candidate;
+    const [, currentOrdinal, currentValue] = current;
+    const later = ordinal > currentOrdinal;
+
+    switch (this.options.policy.keep) {
+      case "first":
+        return !later;
+      case "last":
+        return later;
+      case "max":
+        // Rows without a value lose, and ties go to the later row
+        if (value === null) return currentValue === null && later;
+        if (currentValue === null) return true;
+        if ((value as number) === (currentValue as number)) return later;
+        return (value as number) > (currentValue as number);
+    }
+  }
+
+  private async spillIndex(): Promise<void> {
+    const buckets = new Map<number, IndexEntry[]>();
+    for (const entry of this.index.values()) {
+      const bucket = hashKey(entry[0]) % BUCKET_COUNT;
+      const entries = buckets.get(bucket) ?? [];
+      entries.push(entry);
+      buckets.set(bucket, entries);
+    }
+    for (const [bucket, entries] of buckets) {
+      await fs.appendFile(this.bucketFile(bucket), encodeSpillValues(entries));
+      this.spilledBuckets.add(bucket);
+    }
+    this.index.clear();
+  }
+
+  /**
+   * Marks the kept row of every key, one bucket at a time once the index
+   * has spilled.
+   */
+  private async resolveIndex(): Promise<void> {
+    if (this.spilledBuckets.size > 0) await this.spillIndex();
+    for (const entry of this.index.values()) this.keep(entry[1]);
+    this.index.clear();
+
+    for (const bucket of this.spilledBuckets) {
+      for await (const value of readSpill(this.bucketFile(bucket))) {
+        const entry = value as IndexEntry;
+        const current = this.index.get(entry[0]);
+        if (!current || this.wins(entry, current)) {
+          this.index.set(entry[0], entry);
+        }
+      }
+      for (const entry of this.index.values()) this.keep(entry[1]);
+      this.index.clear();
+      await fs.rm(this.bucketFile(bucket));
+    }
+    this.spilledBuckets.clear();
+  }
+
+  private bucketFile(bucket: number): string {
+    return path.join(this.directory, `index-${bucket}`);
+  }
+
+  private keep(ordinal: number): void {
+    const byte = ordinal >> 3;
+    if (byte >= this.kept.length) {
+      const grown = new Uint8Array(Math.max(this.kept.length * 2, byte + 1));
+      grown.set(this.kept);
+      this.kept = grown;
+    }
+    if (!this.isKept(ordinal)) this.keptCount++;
+    this.kept[byte] |= 1 << (ordinal & 7);
+  }
+
+  private isKept(ordinal: number): boolean {
+    const byte = ordinal >> 3;
+    return (
+      byte < this.kept.length && (this.kept[byte] & (1 << (ordinal & 7))) !== 0
+    );
+  }
+}
+
+/**
+ * Maps Dates to their time, and INT64 bigints read back from an existing
+ * output to numbers where exact, so that they compare and serialize like the
+ * values of new records.
+ */
+function comparable(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === "bigint" && Number.isSafeInteger(Number(value))) {
+    return Number(value);
+  }
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * FNV-1a hash of a key, which spreads keys evenly across buckets.
+ */
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { explodeRecord } from "./explode.js";
+
+const order = {
+  order_id: 1,
+  items: [
+    { sku: "A", qty: 2 },
+    { sku: "B", qty: 1 },
+  ],
+  total: 30,
+};
+
+describe("explodeRecord", () => {
+  it("should write one row per element with the parent fields", () => {
+    const rows = explodeRecord(order, {
+      field: "items",
+      indexColumn: "items_index",
+      separator: ".",
+    });
+
+    expect(rows).toEqual([
+      {
+        order_id: 1,
+        "items.sku": "A",
+        "items.qty": 2,
+        items_index: 0,
+        total: 30,
+      },
+      {
+        order_id: 1,
+        "items.sku": "B",
+        "items.qty": 1,
+        items_index: 1,
+        total: 30,
+      },
+    ]);
+    // Element columns take the place of the array
+    expect(Object.keys(rows[0])).toEqual([
+      "order_id",
+      "items.sku",
+      "items.qty",
+      "items_index",
+      "total",
+    ]);
+  });
+
+  it("should keep scalar elements under the field name", () => {
+    expect(
+      explodeRecord(
+        { id: 1, tags: ["a", "b"] },
+        { field: "tags", separator: "_" },
+      ),
+    ).toEqual([
+      { id: 1, tags: "a" },
+      { id: 1, tags: "b" },
+    ]);
+    // A single value counts as one element
+    expect(
+      explodeRecord({ id: 1, tags: "a" }, { field: "tags", separator: "_" }),
+    ).toEqual([{ id: 1, tags: "a" }]);
+  });
+
+  it("should produce no rows for empty, null and missing arrays", () => {
+    const options = { field: "items", separator: "." };
+
+    expect(explodeRecord({ id: 1, items: [] }, options)).toEqual([]);
+    expect(explodeRecord({ id: 1, items: null }, options)).toEqual([]);
+    expect(explodeRecord({ id: 1 }, options)).toEqual([]);
+  });
+
+  it("should detect columns that collide with parent fields", () => {
+    expect(() =>
+      explodeRecord(
+        { id: 1, items_index: "x", items: [1] },
+        { field: "items", indexColumn: "items_index", separator: "." },
+      ),
+    ).toThrow(
+      'Exploded column "items_index" collides with a field of the same name',
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import type { JsonRecord } from "./index.js";
+
+export interface ExplodeOptions {
+  /** Top-level array field with one row per element */
+  field: string;
+  /** Column for the 0-based position of the element, if any */
+  indexColumn?: string;
+  /** Joins the field name and the keys of object elements */
+  separator: string;
+}
+
+/**
+ * Expands a record into one row per element of an array field. Each row
+ * carries the other fields of the record; an object element contributes its
+ * fields as `<field><separator><key>` columns, and any other element takes
+ * the place of the array. A value that is not an array counts as a single
+ * element, and records with an empty, null or missing array produce no rows.
+ */
+export function explodeRecord(
+  record: JsonRecord,
+  options: ExplodeOptions,
+): JsonRecord[] {
+  const { field, indexColumn, separator } = options;
+  const value = record[field];
+  if (value === null || value === undefined) return [];
+  const elements = Array.isArray(value) ? value : [value];
+
+  return elements.map((element, position) => {
+    const row: JsonRecord = {};
+    const setColumn = (name: string, columnValue: unknown): void => {
+      if (name in record && name !== field) {
+        throw new Error(
+          `Exploded column "${name}" collides with a field of the same name`,
+        );
+      }
+      row[name] = columnValue;
+    };
+
+    // Element columns take the position of the array field
+    for (const [key, parentValue] of Object.entries(record)) {
+      if (key !== field) {
+        row[key] = parentValue;
+        continue;
+      }
+      if (isPlainObject(element)) {
+        for (const [elementKey, elementValue] of Object.entries(element)) {
+          setColumn(`${field}${separator}${elementKey}`, elementValue);
+        }
+      } else {
+        row[field] = element;
+      }
+      if (indexColumn) setColumn(indexColumn, position);
+    }
+    return row;
+  });
+}
+
+function isPlainObject(value: unknown): value is JsonRecord {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
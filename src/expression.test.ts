@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import { compileExpression } from "./expression.js";
+
+describe("compileExpression", () => {
+  it("should concatenate fields and literals", () => {
+    const fullName = compileExpression("first || ' ' || last", "full_name");
+
+    expect(fullName({ first: "Ada", last: "Lovelace" })).toBe("Ada Lovelace");
+    // Like SQL, concatenating null gives null
+    expect(fullName({ first: "Ada" })).toBeNull();
+  });
+
+  it("should evaluate arithmetic with SQL precedence", () => {
+    const total = compileExpression("price * (1 + tax) - -discount", "total");
+
+    expect(total({ price: 10, tax: "0.5", discount: 2 })).toBe(17);
+    expect(total({ price: 10, tax: null, discount: 2 })).toBeNull();
+    expect(() => total({ price: "ten", tax: 0, discount: 0 })).toThrow(
+      'Cannot compute "total": "ten" is not a number',
+    );
+    expect(() => compileExpression("a / b", "ratio")({ a: 1, b: 0 })).toThrow(
+      'Division by zero in "ratio"',
+    );
+  });
+
+  it("should cast values and fail on values that do not convert", () => {
+    const age = compileExpression("CAST(age AS int)", "age");
+
+    expect(age({ age: "42" })).toBe(42);
+    expect(age({})).toBeNull();
+    expect(() => age({ age: "n/a" })).toThrow(
+      'Cannot coerce value "n/a" of field "age" to INT64',
+    );
+    expect(compileExpression("CAST(id AS STRING)", "id")({ id: 7 })).toBe("7");
+    expect(compileExpression("CAST(at AS TIMESTAMP)", "at")({ at: 0 })).toEqual(
+      new Date(0),
+    );
+  });
+
+  it("should call functions and read nested and quoted fields", () => {
+    const label = compileExpression(
+      `UPPER(COALESCE(nickname, "first name")) || '@' || LOWER(TRIM(address.city))`,
+      "label",
+    );
+
+    expect(label({ "first name": "ada", address: { city: " London " } })).toBe(
+      "ADA@london",
+    );
+    expect(
+      compileExpression("CONCAT(a, '-', b, NULL)", "c")({ a: "x", b: 1 }),
+    ).toBe("x-1");
+    // Flattened columns are found by their dotted name
+    expect(
+      compileExpression("address.city", "city")({ "address.city": "Paris" }),
+    ).toBe("Paris");
+  });
+
+  it("should evaluate comparisons and logic", () => {
+    const adult = compileExpression("active == true && age >= 18", "--where");
+
+    expect(adult({ active: true, age: 18 })).toBe(true);
+    expect(adult({ active: true, age: 17 })).toBe(false);
+    expect(adult({ active: true })).toBe(false);
+    // Values of different kinds are neither equal nor ordered
+    expect(adult({ active: true, age: "30" })).toBe(false);
+
+    const either = compileExpression(
+      "NOT deleted AND (role != 'guest' OR joined < '2024-01-01')",
+      "--where",
+    );
+    expect(either({ role: "admin", joined: "2024-05-01" })).toBe(true);
+    expect(either({ role: "guest", joined: "2023-05-01" })).toBe(true);
+    expect(either({ role: "guest", joined: "2024-05-01" })).toBe(false);
+    expect(either({ role: "admin", deleted: true })).toBe(false);
+    expect(compileExpression("!(a == null)", "x")({ a: 0 })).toBe(true);
+  });
+
+  it("should concatenate with || before comparing", () => {
+    expect(
+      compileExpression("first || ' ' || last", "x")({ first: 1, last: 2 }),
+    ).toBe("1 2");
+    expect(compileExpression("first || last", "x")({ first: "a" })).toBeNull();
+    expect(
+      compileExpression(
+        "first || ' ' || last == 'Ada Lovelace'",
+        "x",
+      )({
+        first: "Ada",
+        last: "Lovelace",
+      }),
+    ).toBe(true);
+  });
+
+  it("should treat OR with a null or missing operand as false", () => {
+    const either = compileExpression("active OR admin", "where");
+
+    expect(either({ active: true, admin: null })).toBe(true);
+    expect(either({ active: true })).toBe(true);
+    expect(either({ admin: true })).toBe(true);
+    expect(either({ active: false, admin: null })).toBe(false);
+  });
+
+  it("should reject comparison and logic operands of ||", () => {
+    for (const source of [
+      "(a == 1) || (b == 2)",
+      "a || (NOT b)",
+      "TRUE || a",
+      "a || (b AND c)",
+      "CAST(a AS BOOLEAN) || b",
+    ]) {
+      expect(() => compileExpression(source, "where")).toThrow(
+        'Invalid expression for "where": "||" concatenates strings',
+      );
+    }
+  });
+
+  it("should report syntax errors with the column name", () => {
+    expect(() => compileExpression("first ||", "full_name")).toThrow(
+      'Invalid expression for "full_name": unexpected end of expression',
+    );
+    expect(() => compileExpression("CAST(a AS money)", "x")).toThrow(
+      'unknown CAST type "money"',
+    );
+    expect(() => compileExpression("(a + b", "x")).toThrow(
+      'expected ")" at the end',
+    );
+    expect(() => compileExpression("a b", "x")).toThrow('unexpected "b"');
+    expect(() => compileExpression("'open", "x")).toThrow(
+      "unterminated ' quote",
+    );
+  });
+});
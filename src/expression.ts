@@ -0,0 +1,432 @@
+import type { ParquetType } from "@dsnp/parquetjs";
+import { coerceValue } from "./coerce.js";
+import type { JsonRecord } from "./index.js";
+
+/**
+ * A compiled expression, evaluated against one record.
+ */
+export type Expression = (record: JsonRecord) => unknown;
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "identifier"; value: string; quoted: boolean }
+  | { kind: "operator"; value: string };
+
+/**
+ * Column types accepted by `CAST(... AS <type>)`, as the Parquet type the
+ * value is coerced to.
+ */
+const CAST_TYPES: Record<string, ParquetType> = {
+  INT: "INT64",
+  INTEGER: "INT64",
+  BIGINT: "INT64",
+  FLOAT: "DOUBLE",
+  DOUBLE: "DOUBLE",
+  REAL: "DOUBLE",
+  BOOLEAN: "BOOLEAN",
+  STRING: "UTF8",
+  VARCHAR: "UTF8",
+  TEXT: "UTF8",
+  TIMESTAMP: "TIMESTAMP_MILLIS",
+};
+
+const COMPARISONS = new Set(["==", "!=", "<", "<=", ">", ">="]);
+
+const TWO_CHARACTER_OPERATORS = new Set(["||", "&&", "==", "!=", "<=", ">="]);
+
+const FUNCTIONS: Record<string, (args: unknown[]) => unknown> = {
+  COALESCE: (args) => args.find((arg) => arg !== null) ?? null,
+  // Unlike `||`, CONCAT skips nulls
+  CONCAT: (args) =>
+    args
+      .filter((arg) => arg !== null)
+      .map(toText)
+      .join(""),
+  UPPER: ([arg]) => (arg === null ? null : toText(arg).toUpperCase()),
+  LOWER: ([arg]) => (arg === null ? null : toText(arg).toLowerCase()),
+  TRIM: ([arg]) => (arg === null ? null : toText(arg).trim()),
+};
+
+/**
+ * Compiles a SQL-like expression over the fields of a record:
+ *
+ * - field names, with dots for nested fields (`address.city`) and double
+ *   quotes for names that are not plain identifiers (`"first name"`)
+ * - `'string'`, number, `TRUE`, `FALSE` and `NULL` literals
+ * - `||` concatenation and `+`, `-`, `*`, `/` arithmetic, which are null when
+ *   any operand is null; `||` binds like `+`, and a comparison or logic
+ *   operand is a syntax error rather than concatenated as `"true"`
+ * - `==`, `!=`, `<`, `<=`, `>`, `>=` comparisons, and `&&` / `AND`, `OR` and
+ *   `!` / `NOT` logic
+ * - `CAST(x AS INT | DOUBLE | BOOLEAN | STRING | TIMESTAMP)`, and the
+ *   `COALESCE`, `CONCAT`, `UPPER`, `LOWER` and `TRIM` functions
+ *
+ * Missing fields evaluate to null, and `a.b` also reads a flattened `a.b`
+ * column. `name` is used in evaluation errors.
+ */
+export function compileExpression(source: string, name: string): Expression {
+  let tokens: Token[] = [];
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === "operator" && token.value === value;
+  };
+  const isKeyword = (value: string): boolean => {
+    const token = peek();
+    return (
+      token?.kind === "identifier" &&
+      !token.quoted &&
+      token.value.toUpperCase() === value
+    );
+  };
+  const expectOperator = (value: string): void => {
+    if (!isOperator(value)) {
+      throw new Error(`expected "${value}" ${describeNext()}`);
+    }
+    position++;
+  };
+  const describeNext = (): string => {
+    const token = peek();
+    return token ? `before ${describeToken(token)}` : "at the end";
+  };
+
+  // Expressions that always evaluate to a boolean, which `||` rejects
+  const predicates = new WeakSet<Expression>();
+  const predicate = (expression: Expression): Expression => {
+    predicates.add(expression);
+    return expression;
+  };
+
+  const parseOr = (): Expression => {
+    let left = parseAnd();
+    while (isKeyword("OR")) {
+      position++;
+      const [a, b] = [left, parseAnd()];
+      left = predicate((record) => a(record) === true || b(record) === true);
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expression => {
+    let left = parseNot();
+    while (isOperator("&&") || isKeyword("AND")) {
+      position++;
+      const [a, b] = [left, parseNot()];
+      left = predicate((record) => a(record) === true && b(record) === true);
+    }
+    return left;
+  };
+
+  const parseNot = (): Expression => {
+    if (isOperator("!") || isKeyword("NOT")) {
+      position++;
+      const operand = parseNot();
+      return predicate((record) => operand(record) !== true);
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expression => {
+    const left = parseAdditive();
+    const token = peek();
+    if (token?.kind !== "operator" || !COMPARISONS.has(token.value)) {
+      return left;
+    }
+    position++;
+    const right = parseAdditive();
+    return predicate((record) =>
+      compare(token.value, left(record), right(record)),
+    );
+  };
+
+  const parseAdditive = (): Expression => {
+    let left = parseTerm();
+    while (isOperator("+") || isOperator("-") || isOperator("||")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const right = parseTerm();
+      if (operator !== "||") {
+        left = arithmetic(operator, left, right, name);
+      } else if (predicates.has(left) || predicates.has(right)) {
+        throw new Error(
+          '"||" concatenates strings and cannot take a comparison or logic operand, use OR for a logical or',
+        );
+      } else {
+        left = concatenation(left, right);
+      }
+    }
+    return left;
+  };
+
+  const parseTerm = (): Expression => {
+    let left = parseUnary();
+    while (isOperator("*") || isOperator("/")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = arithmetic(operator, left, parseUnary(), name);
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    if (isOperator("-")) {
+      position++;
+      return arithmetic("-", () => 0, parseUnary(), name);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    if (!token) throw new Error("unexpected end of expression");
+
+    if (token.kind === "number" || token.kind === "string") {
+      position++;
+      return () => token.value;
+    }
+    if (isOperator("(")) {
+      position++;
+      const inner = parseOr();
+      expectOperator(")");
+      return inner;
+    }
+    if (token.kind !== "identifier") {
+      throw new Error(`unexpected ${describeToken(token)}`);
+    }
+    position++;
+
+    const keyword = token.quoted ? null : token.value.toUpperCase();
+    if (keyword === "NULL") return () => null;
+    if (keyword === "TRUE") return predicate(() => true);
+    if (keyword === "FALSE") return predicate(() => false);
+
+    if (keyword === "CAST" && isOperator("(")) {
+      position++;
+      const value = parseOr();
+      if (!isKeyword("AS")) throw new Error(`expected "AS" ${describeNext()}`);
+      position++;
+      const typeToken = peek();
+      const castType =
+        typeToken?.kind === "identifier"
+          ? CAST_TYPES[typeToken.value.toUpperCase()]
+          : undefined;
+      if (!castType) {
+        throw new Error(
+          `unknown CAST type ${typeToken ? `"${typeToken.value}"` : ""}, expected one of ${Object.keys(CAST_TYPES).join(", ")}`,
+        );
+      }
+      position++;
+      expectOperator(")");
+      const converted: Expression = (record) =>
+        cast(value(record), castType, name);
+      return castType === "BOOLEAN" ? predicate(converted) : converted;
+    }
+
+    if (keyword && keyword in FUNCTIONS && isOperator("(")) {
+      position++;
+      const args: Expression[] = [];
+      if (!isOperator(")")) {
+        args.push(parseOr());
+        while (isOperator(",")) {
+          position++;
+          args.push(parseOr());
+        }
+      }
+      expectOperator(")");
+      const apply = FUNCTIONS[keyword];
+      return (record) => apply(args.map((arg) => arg(record)));
+    }
+
+    // Field reference, possibly into nested objects
+    const path = [token.value];
+    while (isOperator(".")) {
+      position++;
+      const key = peek();
+      if (key?.kind !== "identifier") {
+        throw new Error(`expected a field name ${describeNext()}`);
+      }
+      path.push(key.value);
+      position++;
+    }
+    return (record) => lookup(record, path);
+  };
+
+  try {
+    tokens = tokenize(source);
+    const expression = parseOr();
+    const rest = peek();
+    if (rest) throw new Error(`unexpected ${describeToken(rest)}`);
+    return expression;
+  } catch (error) {
+    throw new Error(
+      `Invalid expression for "${name}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "'" || char === '"') {
+      // Quotes are escaped by doubling them, as in SQL
+      let value = "";
+      let closed = false;
+      i++;
+      while (i < source.length) {
+        if (source[i] === char) {
+          if (source[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          closed = true;
+          i++;
+          break;
+        }
+        value += source[i++];
+      }
+      if (!closed) throw new Error(`unterminated ${char} quote`);
+      tokens.push(
+        char === "'"
+          ? { kind: "string", value }
+          : { kind: "identifier", value, quoted: true },
+      );
+    } else if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(
+        source.slice(i),
+      ) as RegExpExecArray;
+      tokens.push({ kind: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(
+        source.slice(i),
+      ) as RegExpExecArray;
+      tokens.push({ kind: "identifier", value: match[0], quoted: false });
+      i += match[0].length;
+    } else if (TWO_CHARACTER_OPERATORS.has(source.slice(i, i + 2))) {
+      tokens.push({ kind: "operator", value: source.slice(i, i + 2) });
+      i += 2;
+    } else if ("+-*/(),.<>!".includes(char)) {
+      tokens.push({ kind: "operator", value: char });
+      i++;
+    } else {
+      throw new Error(`unexpected character "${char}"`);
+    }
+  }
+  return tokens;
+}
+
+function describeToken(token: Token): string {
+  return token.kind === "string" ? `'${token.value}'` : `"${token.value}"`;
+}
+
+function concatenation(left: Expression, right: Expression): Expression {
+  return (record) => {
+    const [x, y] = [left(record), right(record)];
+    return x === null || y === null ? null : toText(x) + toText(y);
+  };
+}
+
+function arithmetic(
+  operator: string,
+  left: Expression,
+  right: Expression,
+  name: string,
+): Expression {
+  return (record) => {
+    const [x, y] = [left(record), right(record)].map((value) =>
+      value === null ? null : toNumber(value, name),
+    );
+    if (x === null || y === null) return null;
+    switch (operator) {
+      case "+":
+        return x + y;
+      case "-":
+        return x - y;
+      case "*":
+        return x * y;
+      default:
+        if (y === 0) throw new Error(`Division by zero in "${name}"`);
+        return x / y;
+    }
+  };
+}
+
+/**
+ * Compares two values of the same kind: numbers, strings (so ISO dates
+ * compare in time order), booleans or dates. Values of different kinds are
+ * never equal and never ordered; null only equals null.
+ */
+function compare(operator: string, x: unknown, y: unknown): boolean {
+  const [a, b] = [comparable(x), comparable(y)];
+  const sameKind = a !== null && b !== null && typeof a === typeof b;
+
+  switch (operator) {
+    case "==":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case "<":
+      return sameKind && (a as number) < (b as number);
+    case "<=":
+      return sameKind && (a as number) <= (b as number);
+    case ">":
+      return sameKind && (a as number) > (b as number);
+    default:
+      return sameKind && (a as number) >= (b as number);
+  }
+}
+
+function comparable(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "object") return JSON.stringify(value);
+  return value as string | number | boolean;
+}
+
+function cast(value: unknown, type: ParquetType, name: string): unknown {
+  if (value === null) return null;
+  if (type === "UTF8") return toText(value);
+  return coerceValue(value, { type }, name);
+}
+
+function toNumber(value: unknown, name: string): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    if (!Number.isNaN(number)) return number;
+  }
+  throw new Error(
+    `Cannot compute "${name}": ${JSON.stringify(value)} is not a number`,
+  );
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function lookup(record: JsonRecord, path: string[]): unknown {
+  // Columns flattened with the default separator hold the dotted name
+  const dotted = path.join(".");
+  if (path.length > 1 && dotted in record) return record[dotted] ?? null;
+
+  let value: unknown = record;
+  for (const key of path) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return null;
+    }
+    value = (value as JsonRecord)[key];
+  }
+  return value ?? null;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { RecordFlattener } from "./flatten.js";
+
+const record = {
+  id: 1,
+  address: { city: "Berlin", geo: { lat: 52.5, lng: 13.4 } },
+  tags: ["a", { b: true }],
+  seenAt: new Date(0),
+  note: null,
+};
+
+describe("RecordFlattener", () => {
+  it("should flatten every level of nested objects and keep arrays", () => {
+    const flattener = new RecordFlattener({
+      depth: Number.POSITIVE_INFINITY,
+      separator: ".",
+      arrays: "json",
+    });
+
+    expect(flattener.flatten(record)).toEqual({
+      id: 1,
+      "address.city": "Berlin",
+      "address.geo.lat": 52.5,
+      "address.geo.lng": 13.4,
+      tags: ["a", { b: true }],
+      seenAt: new Date(0),
+      note: null,
+    });
+  });
+
+  it("should stop at the depth and give array elements their own columns", () => {
+    const flattener = new RecordFlattener({
+      depth: 1,
+      separator: "_",
+      arrays: "index",
+    });
+
+    expect(flattener.flatten(record)).toEqual({
+      id: 1,
+      address_city: "Berlin",
+      address_geo: { lat: 52.5, lng: 13.4 },
+      tags_0: "a",
+      tags_1: { b: true },
+      seenAt: new Date(0),
+      note: null,
+    });
+  });
+
+  it("should detect flattened columns that collide with existing fields", () => {
+    const flattener = new RecordFlattener({
+      depth: Number.POSITIVE_INFINITY,
+      separator: "_",
+      arrays: "json",
+    });
+
+    expect(() =>
+      flattener.flatten({ address: { city: "x" }, address_city: "y" }),
+    ).toThrow(
+      'Flattened column "address_city" collides with a field of the same name',
+    );
+
+    // Collisions are also caught across records
+    flattener.flatten({ address: { city: "x" } });
+    expect(() => flattener.flatten({ address_city: "y" })).toThrow(
+      'Flattened column "address_city" collides',
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import type { JsonRecord } from "./index.js";
+
+/**
+ * How arrays are handled when flattening: `json` leaves them as values of
+ * their field, `index` turns each element into a column of its position.
+ */
+export type FlattenArrayMode = "json" | "index";
+
+export interface FlattenOptions {
+  /** Levels of nesting to flatten; `Infinity` flattens all of them */
+  depth: number;
+  /** Joins the keys of a flattened column name, e.g. `.` or `_` */
+  separator: string;
+  arrays: FlattenArrayMode;
+}
+
+/**
+ * Turns nested objects into top-level columns, so that
+ * `{"address": {"city": "x"}}` becomes `{"address.city": "x"}`. Objects
+ * nested deeper than `depth` are kept as values of their flattened column.
+ *
+ * Column names are tracked across records, and a flattened column that
+ * collides with a field of the same name, in the same record or in another
+ * one, fails the record.
+ */
+export class RecordFlattener {
+  /** Whether each column name seen so far came from flattening */
+  private readonly origins = new Map<string, boolean>();
+
+  constructor(private readonly options: FlattenOptions) {}
+
+  flatten(record: JsonRecord): JsonRecord {
+    const flattened: JsonRecord = {};
+    for (const [key, value] of Object.entries(record)) {
+      this.flattenValue(flattened, key, value, 0, false);
+    }
+    return flattened;
+  }
+
+  private flattenValue(
+    flattened: JsonRecord,
+    name: string,
+    value: unknown,
+    depth: number,
+    fromFlattening: boolean,
+  ): void {
+    const expands =
+      depth < this.options.depth &&
+      typeof value === "object" &&
+      value !== null &&
+      !(value instanceof Date) &&
+      (!Array.isArray(value) || this.options.arrays === "index");
+
+    if (!expands) {
+      this.addColumn(flattened, name, value, fromFlattening);
+      return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+      this.flattenValue(
+        flattened,
+        `${name}${this.options.separator}${key}`,
+        child,
+        depth + 1,
+        true,
+      );
+    }
+  }
+
+  private addColumn(
+    flattened: JsonRecord,
+    name: string,
+    value: unknown,
+    fromFlattening: boolean,
+  ): void {
+    const seenOrigin = this.origins.get(name);
+    if (
+      name in flattened ||
+      (seenOrigin ?? fromFlattening) !== fromFlattening
+    ) {
+      throw new Error(
+        `Flattened column "${name}" collides with a field of the same name`,
+      );
+    }
+    this.origins.set(name, fromFlattening);
+    flattened[name] = value;
+  }
+}
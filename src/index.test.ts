@@ -1,5 +1,11 @@
-import { ParquetSchema, type ParquetWriter } from "@dsnp/parquetjs";
+import * as zlib from "node:zlib";
+import {
+  type ParquetReader,
+  ParquetSchema,
+  type ParquetWriter,
+} from "@dsnp/parquetjs";
 import { vol } from "memfs";
+import * as os from "os";
 import {
   afterEach,
   beforeEach,
@@ -10,7 +16,7 @@ import {
   vi,
 } from "vitest";
 
-import { type CompressionType, JsonParquetMerger } from "./index";
+import { type CompressionType, JsonParquetMerger } from "./index.js";
 
 /**
  * Schema field definition for Parquet schema.
@@ -69,6 +75,9 @@ function createMockParquetWriter(): MockedParquetWriter {
 vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
 vi.mock("glob");
 vi.mock("@dsnp/parquetjs", () => ({
+  ParquetReader: {
+    openFile: vi.fn(),
+  },
   ParquetWriter: {
     openFile: vi.fn(),
   },
@@ -166,7 +175,40 @@ describe("JsonParquetMerger", () => {
         "/test/input/file2.json",
         "/test/input/subdirectory/file3.json",
       ]);
-      expect(glob).toHaveBeenCalledWith("/test/input/**/*.json");
+      expect(glob).toHaveBeenCalledWith(
+        "/test/input/**/*.{json,jsonl,ndjson}{,.gz,.br,.zst}",
+      );
+    });
+
+    it("should only discover files of the requested input format", async () => {
+      vol.fromJSON({
+        "/test/input/events.jsonl": "",
+        "/test/input/export.json": "",
+      });
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        inputFormat: "ndjson",
+      });
+
+      const { glob } = await import("glob");
+      vi.mocked(glob).mockResolvedValue([
+        "/test/input/events.jsonl",
+        "/test/input/export.json",
+      ]);
+
+      const result = await merger["discoverFiles"]();
+      expect(result).toEqual([
+        "/test/input/events.jsonl",
+        "/test/input/export.json",
+      ]);
+      expect(glob).toHaveBeenCalledWith(
+        "/test/input/**/*.{json,jsonl,ndjson}{,.gz,.br,.zst}",
+      );
     });
 
     it("should filter files by pattern when provided", async () => {
@@ -346,10 +388,10 @@ describe("JsonParquetMerger", () => {
           compression: "UNCOMPRESSED",
         },
         dateField: {
-          type: "UTF8",
+          type: "TIMESTAMP_MILLIS",
           optional: true,
           compression: "UNCOMPRESSED",
-        }, // ISO string, not Date object
+        }, // ISO string detected as a timestamp
         objectField: {
           type: "UTF8",
           optional: true,
@@ -358,6 +400,33 @@ describe("JsonParquetMerger", () => {
       });
     });
 
+    it("should keep temporal strings as UTF8 when detection is disabled", async () => {
+      vol.fromJSON({
+        "/test/file.json": JSON.stringify([
+          { created_at: "2024-01-15T10:00:00Z", day: "2024-01-15" },
+        ]),
+      });
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        detectTemporal: false,
+      });
+      await merger["inferSchema"](["/test/file.json"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        created_at: {
+          type: "UTF8",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+        day: { type: "UTF8", optional: true, compression: "UNCOMPRESSED" },
+      });
+    });
+
     it("should correctly infer INT64 type when first value is null and subsequent values are numbers", async () => {
       vol.fromJSON({
         "/test/file.json": JSON.stringify([
@@ -419,10 +488,14 @@ describe("JsonParquetMerger", () => {
       });
     });
 
-    it("should throw error for invalid JSON", async () => {
+    it("should widen types when later values do not fit", async () => {
       vol.fromJSON({
-        "/test/file.json": "invalid json",
+        "/test/file.json": JSON.stringify([
+          { id: 1, score: 1, status: 200 },
+          { id: 2, score: 1.5, status: "n/a" },
+        ]),
       });
+      vi.spyOn(console, "warn").mockImplementation(() => {});
 
       const merger = new JsonParquetMerger({
         input: "/test/input",
@@ -431,14 +504,29 @@ describe("JsonParquetMerger", () => {
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
       });
-      await expect(merger["inferSchema"](["/test/file.json"])).rejects.toThrow(
-        "Failed to parse JSON from /test/file.json",
+      await merger["inferSchema"](["/test/file.json"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        score: { type: "DOUBLE", optional: true, compression: "UNCOMPRESSED" },
+        status: { type: "UTF8", optional: true, compression: "UNCOMPRESSED" },
+      });
+      expect(merger.getTypeWidenings()).toEqual([
+        expect.objectContaining({
+          field: "score",
+          from: "INT64",
+          to: "DOUBLE",
+        }),
+        expect.objectContaining({ field: "status", from: "INT64", to: "UTF8" }),
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Field "status" widened from INT64 to UTF8'),
       );
     });
 
-    it("should throw error for empty data", async () => {
+    it("should throw on type conflicts with the error policy", async () => {
       vol.fromJSON({
-        "/test/file.json": "[]",
+        "/test/file.json": JSON.stringify([{ status: 200 }, { status: "ok" }]),
       });
 
       const merger = new JsonParquetMerger({
@@ -447,87 +535,256 @@ describe("JsonParquetMerger", () => {
         validate: false,
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
+        typeConflict: "error",
       });
       await expect(merger["inferSchema"](["/test/file.json"])).rejects.toThrow(
-        "No fields found in any of the input files",
+        'Type conflict for field "status": INT64 vs UTF8',
       );
     });
-  });
 
-  describe("validateSchema", () => {
-    it("should return true and not validate when validate option is false", async () => {
+    it("should use a replacing schema file without inference", async () => {
+      vol.fromJSON({
+        "/test/file.json": JSON.stringify([{ id: 1, score: null }]),
+        "/test/schema.json": JSON.stringify({
+          fields: { id: "INT32", score: "DOUBLE" },
+        }),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
         validate: false,
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
+        schema: "/test/schema.json",
+      });
+      await merger["inferSchema"](["/test/file.json"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT32", optional: true, compression: "UNCOMPRESSED" },
+        score: { type: "DOUBLE", optional: true, compression: "UNCOMPRESSED" },
+      });
+    });
+
+    it("should derive the schema from a JSON Schema and validate against it", async () => {
+      vol.fromJSON({
+        // A sparse input that inference could not type
+        "/test/file.json": JSON.stringify([{ id: 1, seenAt: null }]),
+        "/test/schema.json": JSON.stringify({
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "integer" },
+            seenAt: { type: ["string", "null"], format: "date-time" },
+          },
+        }),
       });
-      merger["inferredSchema"] = new ParquetSchema({
-        id: { type: "INT64", optional: true },
-        name: { type: "UTF8", optional: true },
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        jsonSchema: "/test/schema.json",
       });
+      await merger["inferSchema"](["/test/file.json"]);
 
-      const result = await merger["validateSchema"]([
-        { id: 1, extra: "field" },
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: false, compression: "UNCOMPRESSED" },
+        seenAt: {
+          type: "TIMESTAMP_MILLIS",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+      });
+      expect(merger["validateRecord"]({ id: "1" }).issues).toEqual([
+        { field: "id", rule: "type", message: 'Field "id" must be integer' },
       ]);
-      expect(result).toBe(true);
     });
 
-    it("should return false and warn about missing fields when validate is true", async () => {
+    it("should pin overridden fields and infer the rest", async () => {
+      vol.fromJSON({
+        "/test/file.json": JSON.stringify([
+          { id: 1, score: null, name: "John" },
+          { id: 2, score: "n/a", name: "Jane" },
+        ]),
+        "/test/schema.json": JSON.stringify({
+          mode: "override",
+          fields: {
+            score: { type: "DOUBLE", compression: "GZIP" },
+            added: "BOOLEAN",
+          },
+        }),
+      });
+
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
-        validate: true,
+        validate: false,
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
+        typeConflict: "error",
+        schema: "/test/schema.json",
+      });
+      await merger["inferSchema"](["/test/file.json"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        score: { type: "DOUBLE", optional: true, compression: "GZIP" },
+        name: { type: "UTF8", optional: true, compression: "UNCOMPRESSED" },
+        added: {
+          type: "BOOLEAN",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
       });
-      merger["inferredSchema"] = new ParquetSchema({
-        id: { type: "INT64", optional: true },
-        name: { type: "UTF8", optional: true },
+    });
+
+    it("should warn about invalid JSON and infer from the other records", async () => {
+      vol.fromJSON({
+        "/test/file.json": "invalid json",
       });
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
 
-      const result = await merger["validateSchema"]([{ id: 1 }]);
-      expect(result).toBe(false);
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+      });
+      await expect(merger["inferSchema"](["/test/file.json"])).rejects.toThrow(
+        "No fields found in any of the input files",
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Failed to parse JSON from /test/file.json"),
+      );
     });
 
-    it("should return false and warn about extra fields when validate is true", async () => {
+    it("should infer schema from NDJSON files", async () => {
+      vol.fromJSON({
+        "/test/file.jsonl": [
+          JSON.stringify({ id: 1, name: null }),
+          JSON.stringify({ id: 2, name: "Jane", score: 1.5 }),
+        ].join("\n"),
+      });
+
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
-        validate: true,
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+      });
+      await merger["inferSchema"](["/test/file.jsonl"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        name: { type: "UTF8", optional: true, compression: "UNCOMPRESSED" },
+        score: { type: "DOUBLE", optional: true, compression: "UNCOMPRESSED" },
+      });
+    });
+
+    it("should leave malformed NDJSON lines out of inference", async () => {
+      vol.fromJSON({
+        "/test/file.jsonl": '{"id": 1}\n{"id": 2, "name": \n{"id": 3}\n',
+      });
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
       });
-      merger["inferredSchema"] = new ParquetSchema({
-        id: { type: "INT64", optional: true },
+      await merger["inferSchema"](["/test/file.jsonl"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
       });
+    });
 
-      const result = await merger["validateSchema"]([
-        { id: 1, name: "John", extra: "field" },
-      ]);
-      expect(result).toBe(false);
+    it("should infer a column for each flattened leaf", async () => {
+      vol.fromJSON({
+        "/test/file.json": JSON.stringify([
+          { id: 1, address: { city: "Berlin", geo: { lat: 52.5 } } },
+          { id: 2, address: { city: "Paris", zip: 75001 } },
+        ]),
+      });
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        flatten: Number.POSITIVE_INFINITY,
+        flattenSeparator: "_",
+      });
+      await merger["inferSchema"](["/test/file.json"]);
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        address_city: {
+          type: "UTF8",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+        address_geo_lat: {
+          type: "DOUBLE",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+        address_zip: {
+          type: "INT64",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+      });
     });
 
-    it("should return true when all fields match the schema", async () => {
+    it("should throw error for empty data", async () => {
+      vol.fromJSON({
+        "/test/file.json": "[]",
+      });
+
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
-        validate: true,
+        validate: false,
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
       });
-      merger["inferredSchema"] = new ParquetSchema({
-        id: { type: "INT64", optional: true },
-        name: { type: "UTF8", optional: true },
+      await expect(merger["inferSchema"](["/test/file.json"])).rejects.toThrow(
+        "No fields found in any of the input files",
+      );
+    });
+  });
+
+  describe("validateRecord", () => {
+    const fields = {
+      id: { type: "INT64" as const, optional: true },
+      name: { type: "UTF8" as const, optional: true },
+    };
+
+    it("should not validate when validate option is false", async () => {
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
       });
+      await merger["applySchema"](fields);
 
-      vi.spyOn(console, "warn").mockImplementation(() => {});
-      const result = await merger["validateSchema"]([{ id: 1, name: "John" }]);
-      expect(result).toBe(true);
+      const result = merger["validateRecord"]({ id: "1", extra: "field" });
+      expect(result).toEqual({ valid: true, issues: [] });
     });
 
-    it("should return false when multiple validation issues exist", async () => {
+    it("should validate strictly when validate is true", async () => {
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
@@ -535,17 +792,42 @@ describe("JsonParquetMerger", () => {
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
       });
-      merger["inferredSchema"] = new ParquetSchema({
-        id: { type: "INT64", optional: true },
-        name: { type: "UTF8", optional: true },
-        age: { type: "INT64", optional: true },
+      await merger["applySchema"](fields);
+
+      const result = merger["validateRecord"]({ id: "1", extra: "field" });
+      expect(result.valid).toBe(false);
+      expect(result.issues.map((issue) => issue.rule)).toEqual([
+        "type",
+        "missing",
+        "extra",
+      ]);
+    });
+
+    it("should accept values that can be coerced in coerce mode", async () => {
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: "coerce",
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
       });
+      await merger["applySchema"](fields);
 
-      const result = await merger["validateSchema"]([
-        { id: 1, extra: "field" }, // missing name, age; has extra field
-        { name: "John" }, // missing id, age
+      expect(merger["validateRecord"]({ id: "1", extra: "field" }).valid).toBe(
+        true,
+      );
+      expect(merger["validateRecord"]({ id: "one" }).issues).toEqual([
+        {
+          field: "id",
+          rule: "type",
+          message: 'Cannot coerce value "one" of field "id" to INT64',
+        },
       ]);
-      expect(result).toBe(false);
+      expect(merger.getValidationSummary()).toEqual({
+        checked: 2,
+        failed: 1,
+        issues: [{ field: "id", rule: "type", count: 1 }],
+      });
     });
   });
 
@@ -606,7 +888,7 @@ describe("JsonParquetMerger", () => {
       expect(result).toEqual({ date, id: 1 });
     });
 
-    it("should preserve primitive values", () => {
+    it("should stringify values of fields widened to UTF8", () => {
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
@@ -614,42 +896,1033 @@ describe("JsonParquetMerger", () => {
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
       });
-
-      const record = {
-        string: "test",
-        number: 42,
-        boolean: true,
-        float: 3.14,
+      merger["schemaFields"] = {
+        status: { type: "UTF8", optional: true },
+        score: { type: "DOUBLE", optional: true },
       };
-      const result = merger["transformRecord"](record);
-      expect(result).toEqual(record);
-    });
-  });
 
-  describe("writeBatch", () => {
-    it("should write records to ParquetWriter and update count", async () => {
-      const mockWriter = createMockParquetWriter();
-      const batch = [{ id: 1 }, { id: 2 }];
-      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const result = merger["transformRecord"]({ status: 200, score: 3 });
+      expect(result).toEqual({ status: "200", score: 3 });
+    });
 
+    it("should shape nested values to native groups and lists", () => {
       const merger = new JsonParquetMerger({
         input: "/test/input",
         output: "/test/output.parquet",
         validate: false,
         batchSize: 1000,
         compression: "UNCOMPRESSED" as const,
+        nested: "native",
       });
-      await merger["writeBatch"](mockWriter, batch);
+      merger["schemaFields"] = {
+        address: {
+          optional: true,
+          fields: { city: { type: "UTF8", optional: true } },
+        },
+        tags: { type: "UTF8", repeated: true },
+        items: {
+          repeated: true,
+          fields: { meta: { type: "UTF8", optional: true } },
+        },
+      };
 
-      expect(mockWriter.appendRow).toHaveBeenCalledTimes(2);
-      expect(mockWriter.appendRow).toHaveBeenCalledWith({ id: 1 });
-      expect(mockWriter.appendRow).toHaveBeenCalledWith({ id: 2 });
-      expect(merger["processedCount"]).toBe(2);
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Wrote batch of 2 records"),
-      );
+      const result = merger["transformRecord"]({
+        address: { city: "Tokyo" },
+        tags: ["a", null, 1],
+        items: [{ meta: { gift: true } }],
+      });
+      expect(result).toEqual({
+        address: { city: "Tokyo" },
+        tags: ["a", "1"],
+        items: [{ meta: '{"gift":true}' }],
+      });
+      expect(
+        merger["transformRecord"]({ address: null, tags: null, items: [] }),
+      ).toEqual({ address: null, tags: null, items: [] });
+    });
 
-      consoleSpy.mockRestore();
+    it("should convert temporal strings to match the schema", () => {
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+      });
+      merger["schemaFields"] = {
+        created_at: { type: "TIMESTAMP_MILLIS", optional: true },
+        precise_at: { type: "TIMESTAMP_MICROS", optional: true },
+        day: { type: "DATE", optional: true },
+      };
+
+      const result = merger["transformRecord"]({
+        created_at: "2024-01-15T10:00:00Z",
+        precise_at: "2024-01-15T10:00:00.000001Z",
+        day: "2024-01-15",
+      });
+      expect(result).toEqual({
+        created_at: new Date("2024-01-15T10:00:00Z"),
+        precise_at: 1705312800000001n,
+        day: new Date("2024-01-15T00:00:00Z"),
+      });
+    });
+
+    it("should preserve primitive values", () => {
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+      });
+
+      const record = {
+        string: "test",
+        number: 42,
+        boolean: true,
+        float: 3.14,
+      };
+      const result = merger["transformRecord"](record);
+      expect(result).toEqual(record);
+    });
+
+    it("should coerce values to the schema and reject those that do not fit", () => {
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+      });
+      merger["schemaFields"] = {
+        id: { type: "INT32", optional: false },
+        score: { type: "DOUBLE", optional: true },
+      };
+
+      expect(merger["transformRecord"]({ id: "7", score: "1.5" })).toEqual({
+        id: 7,
+        score: 1.5,
+      });
+      expect(() => merger["transformRecord"]({ id: null })).toThrow(
+        'Missing value for required field "id"',
+      );
+      expect(() => merger["transformRecord"]({ id: 1, score: "n/a" })).toThrow(
+        'Cannot coerce value "n/a" of field "score" to DOUBLE',
+      );
+    });
+  });
+
+  describe("writeBatch", () => {
+    it("should write records to ParquetWriter and update count", async () => {
+      const mockWriter = createMockParquetWriter();
+      const batch = [{ id: 1 }, { id: 2 }];
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+      });
+      await merger["writeBatch"](mockWriter, batch);
+
+      expect(mockWriter.appendRow).toHaveBeenCalledTimes(2);
+      expect(mockWriter.appendRow).toHaveBeenCalledWith({ id: 1 });
+      expect(mockWriter.appendRow).toHaveBeenCalledWith({ id: 2 });
+      expect(merger["processedCount"]).toBe(2);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Wrote batch of 2 records"),
+      );
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("exportSchema", () => {
+    it("should write the schema with stats instead of Parquet", async () => {
+      vol.fromJSON({
+        "/test/users.json": JSON.stringify([
+          { id: 1, name: "John" },
+          { id: 2, name: null },
+        ]),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const merger = new JsonParquetMerger({
+        input: "/test/users.json",
+        output: "/test/users.sql",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        printSchema: "duckdb",
+      });
+      await merger.exportSchema();
+
+      expect(vol.readFileSync("/test/users.sql", "utf-8")).toBe(
+        [
+          'CREATE TABLE "users" (',
+          '  "id" BIGINT, -- compression: UNCOMPRESSED, nulls: 0, types: integer (2), distinct: 2, sample: 1',
+          '  "name" VARCHAR -- compression: UNCOMPRESSED, nulls: 1, types: string (1), distinct: 1, sample: "John"',
+          ");",
+          "",
+        ].join("\n"),
+      );
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      expect(ParquetWriter.openFile).not.toHaveBeenCalled();
+    });
+
+    it("should print to stdout and gather stats for replacing schema files", async () => {
+      vol.fromJSON({
+        "/test/users.json": JSON.stringify([{ id: 1 }, { id: 2 }]),
+        "/test/schema.json": JSON.stringify({ fields: { id: "INT32" } }),
+      });
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const writeSpy = vi
+        .spyOn(process.stdout, "write")
+        .mockImplementation(() => true);
+
+      const merger = new JsonParquetMerger({
+        input: "/test/users.json",
+        output: "",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        schema: "/test/schema.json",
+        printSchema: "json",
+      });
+      await merger.exportSchema();
+
+      const printed = JSON.parse(String(writeSpy.mock.calls[0][0]));
+      expect(printed.fields.id).toEqual({
+        type: "INT32",
+        optional: true,
+        compression: "UNCOMPRESSED",
+        stats: {
+          nullCount: 0,
+          types: { integer: 2 },
+          sample: 1,
+          distinctCount: 2,
+          min: 1,
+          max: 2,
+        },
+      });
+      // Progress goes to stderr so stdout holds only the schema
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Using schema from /test/schema.json"),
+      );
+      writeSpy.mockRestore();
+    });
+  });
+
+  describe("append mode", () => {
+    it("should combine existing rows and new records atomically", async () => {
+      vol.fromJSON({
+        "/test/file.json": JSON.stringify([{ id: 2, score: 2.5 }]),
+        "/test/output.parquet": "existing",
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const { ParquetReader, ParquetWriter } = await import("@dsnp/parquetjs");
+      vi.mocked(ParquetReader.openFile).mockImplementation(
+        async () =>
+          ({
+            getSchema: () => ({
+              schema: {
+                id: { type: "INT64", optional: true, repeated: false },
+                score: { type: "INT64", optional: true, repeated: false },
+              },
+              fieldList: [],
+            }),
+            close: vi.fn(),
+            async *[Symbol.asyncIterator]() {
+              yield { id: 1n, score: 5n };
+            },
+          }) as unknown as ParquetReader,
+      );
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockImplementationOnce(
+        async (_schema, file) => {
+          vol.writeFileSync(String(file), "combined");
+          return mockWriter as unknown as ParquetWriter;
+        },
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/file.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        append: true,
+      });
+      await merger.run();
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        score: { type: "DOUBLE", optional: true, compression: "UNCOMPRESSED" },
+      });
+      expect(ParquetWriter.openFile).toHaveBeenCalledWith(
+        expect.anything(),
+        `/test/.output.parquet.${process.pid}.tmp`,
+        { rowGroupSize: 1000, pageSize: undefined },
+      );
+      expect(mockWriter.appendRow).toHaveBeenNthCalledWith(1, {
+        id: 1n,
+        score: 5,
+      });
+      expect(mockWriter.appendRow).toHaveBeenNthCalledWith(2, {
+        id: 2,
+        score: 2.5,
+      });
+      expect(vol.readFileSync("/test/output.parquet", "utf-8")).toBe(
+        "combined",
+      );
+      expect(vol.existsSync(`/test/.output.parquet.${process.pid}.tmp`)).toBe(
+        false,
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        "✅ Successfully merged 2 records into /test/output.parquet",
+      );
+    });
+
+    it("should deduplicate and sort existing rows together with new records", async () => {
+      vol.fromJSON({
+        "/test/file.json": JSON.stringify([
+          { id: 1, status: "new" },
+          { id: 2, status: "new" },
+        ]),
+        "/test/output.parquet": "existing",
+      });
+      vol.mkdirSync(os.tmpdir(), { recursive: true });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const { ParquetReader, ParquetWriter } = await import("@dsnp/parquetjs");
+      vi.mocked(ParquetReader.openFile).mockImplementation(
+        async () =>
+          ({
+            getSchema: () => ({
+              schema: {
+                id: { type: "INT64", optional: true, repeated: false },
+                status: { type: "UTF8", optional: true, repeated: false },
+              },
+              fieldList: [],
+            }),
+            close: vi.fn(),
+            async *[Symbol.asyncIterator]() {
+              yield { id: 3n, status: "old" };
+              yield { id: 1n, status: "old" };
+            },
+          }) as unknown as ParquetReader,
+      );
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockImplementationOnce(
+        async (_schema, file) => {
+          vol.writeFileSync(String(file), "combined");
+          return mockWriter as unknown as ParquetWriter;
+        },
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/file.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        append: true,
+        dedupeKey: ["id"],
+        dedupePolicy: { keep: "last" },
+        sortBy: [{ column: "id", descending: false }],
+      });
+      await merger.run();
+
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ id: 1, status: "new" }],
+        [{ id: 2, status: "new" }],
+        [{ id: 3n, status: "old" }],
+      ]);
+      expect(console.log).toHaveBeenCalledWith(
+        "✅ Successfully merged 3 records into /test/output.parquet",
+      );
+    });
+  });
+
+  describe("rejected records", () => {
+    const events = [
+      JSON.stringify({ id: 1, name: "a" }),
+      '{"id": ',
+      JSON.stringify({ id: "abc", name: "b" }),
+      JSON.stringify({ id: 3 }),
+      JSON.stringify({ id: 4, name: "d" }),
+    ].join("\n");
+
+    it("should write good records and send rejected ones to the reject file", async () => {
+      vol.fromJSON({
+        "/test/events.jsonl": events,
+        "/test/schema.json": JSON.stringify({
+          mode: "override",
+          fields: { id: "INT64" },
+        }),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.jsonl",
+        output: "/test/output.parquet",
+        validate: true,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        schema: "/test/schema.json",
+        rejectFile: "/test/rejects.ndjson",
+      });
+      await merger.run();
+
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ name: "a", id: 1 }],
+        [{ name: "d", id: 4 }],
+      ]);
+      const rejects = String(vol.readFileSync("/test/rejects.ndjson", "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(rejects).toEqual([
+        {
+          file: "/test/events.jsonl",
+          index: 1,
+          reason: expect.stringContaining("Malformed JSON on line 2"),
+          line: '{"id":',
+        },
+        {
+          file: "/test/events.jsonl",
+          index: 2,
+          reason: 'Field "id" has string value "abc", expected INT64',
+          record: { id: "abc", name: "b" },
+          issues: [
+            {
+              field: "id",
+              rule: "type",
+              message: 'Field "id" has string value "abc", expected INT64',
+            },
+          ],
+        },
+        {
+          file: "/test/events.jsonl",
+          index: 3,
+          reason: 'Missing field "name"',
+          record: { id: 3 },
+          issues: [
+            { field: "name", rule: "missing", message: 'Missing field "name"' },
+          ],
+        },
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(
+        "⚠️  Rejected 3 records, written to /test/rejects.ndjson",
+      );
+    });
+
+    it("should reject documents without the records path and keep going", async () => {
+      vol.fromJSON({
+        "/test/input/a.json": '{"error": "rate limited"}',
+        "/test/input/b.jsonl": [
+          '{"data": {"items": [{"id": 1}]}}',
+          '{"error": "rate limited"}',
+        ].join("\n"),
+        "/test/input/c.json": '{"data": {"items": [{"id": 2}]}}',
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { glob } = await import("glob");
+      vi.mocked(glob).mockResolvedValue([
+        "/test/input/a.json",
+        "/test/input/b.jsonl",
+        "/test/input/c.json",
+      ]);
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        recordsPath: "data.items",
+        rejectFile: "/test/rejects.ndjson",
+      });
+      await merger.run();
+
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ id: 1 }],
+        [{ id: 2 }],
+      ]);
+      const rejects = String(vol.readFileSync("/test/rejects.ndjson", "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(rejects).toEqual([
+        {
+          file: "/test/input/a.json",
+          index: 0,
+          reason:
+            'Records path "data.items" not found (the rest of the file could not be read)',
+        },
+        {
+          file: "/test/input/b.jsonl",
+          index: 1,
+          reason: 'Records path "data.items" not found on line 2',
+          line: '{"error": "rate limited"}',
+        },
+      ]);
+    });
+
+    it("should reject records that are not JSON objects", async () => {
+      vol.fromJSON({
+        "/test/events.jsonl": [
+          '{"id": 1}',
+          "null",
+          "[7]",
+          '"str"',
+          '{"id": 2}',
+        ].join("\n"),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { ParquetSchema, ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.jsonl",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        rejectFile: "/test/rejects.ndjson",
+      });
+      await merger.run();
+
+      expect(Object.keys(vi.mocked(ParquetSchema).mock.calls[0][0])).toEqual([
+        "id",
+      ]);
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ id: 1 }],
+        [{ id: 2 }],
+      ]);
+      const rejects = String(vol.readFileSync("/test/rejects.ndjson", "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(rejects).toEqual([
+        {
+          file: "/test/events.jsonl",
+          index: 1,
+          reason: "Record is null, not a JSON object",
+          record: null,
+        },
+        {
+          file: "/test/events.jsonl",
+          index: 2,
+          reason: "Record is an array, not a JSON object",
+          record: [7],
+        },
+        {
+          file: "/test/events.jsonl",
+          index: 3,
+          reason: "Record is a string, not a JSON object",
+          record: "str",
+        },
+      ]);
+    });
+
+    it("should keep the records before a truncated compressed file breaks off", async () => {
+      const lines = Array.from({ length: 5000 }, (_, i) =>
+        JSON.stringify({ id: i }),
+      ).join("\n");
+      const compressed = zlib.gzipSync(lines);
+      vol.fromJSON({
+        "/test/input/a.jsonl.gz": compressed.subarray(0, compressed.length / 2),
+        "/test/input/b.jsonl": '{"id": -1}',
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { glob } = await import("glob");
+      vi.mocked(glob).mockResolvedValue([
+        "/test/input/a.jsonl.gz",
+        "/test/input/b.jsonl",
+      ]);
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        rejectFile: "/test/rejects.ndjson",
+      });
+      await merger.run();
+
+      const written = mockWriter.appendRow.mock.calls.map(([row]) => row.id);
+      const kept = written.length - 1;
+      expect(kept).toBeGreaterThan(0);
+      expect(written).toEqual([
+        ...Array.from({ length: kept }, (_, i) => i),
+        -1,
+      ]);
+      const rejects = String(vol.readFileSync("/test/rejects.ndjson", "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(rejects).toEqual([
+        {
+          file: "/test/input/a.jsonl.gz",
+          index: kept,
+          reason:
+            "Cannot decompress gzip data: unexpected end of file (the rest of the file could not be read)",
+        },
+      ]);
+    });
+
+    it("should abort once more than max errors records are rejected", async () => {
+      vol.fromJSON({ "/test/events.jsonl": events });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        createMockParquetWriter() as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.jsonl",
+        output: "/test/output.parquet",
+        validate: true,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        maxErrors: 1,
+      });
+
+      await expect(merger.run()).rejects.toThrow("Processing failed");
+      expect(errorSpy).toHaveBeenCalledWith(
+        "❌ Error:",
+        "Aborting after 2 rejected records (--max-errors 1)",
+      );
+    });
+  });
+
+  describe("column projection", () => {
+    it("should infer and write the projected columns", async () => {
+      vol.fromJSON({
+        "/test/users.json": JSON.stringify([
+          { first: "Ada", last: "Lovelace", userId: 1, age: "36", pw: "x" },
+          { first: "Alan", last: "Turing", userId: 2, age: "n/a", pw: "y" },
+        ]),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/users.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        compute: ["full_name = first || ' ' || last", "age = CAST(age AS INT)"],
+        rename: { user_id: "userId" },
+        exclude: ["first", "last", "pw"],
+      });
+      await merger.run();
+
+      // The record whose age cannot be cast is left out of inference
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        user_id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        age: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        full_name: {
+          type: "UTF8",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+      });
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ user_id: 1, age: 36, full_name: "Ada Lovelace" }],
+      ]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Skipping record 1 of /test/users.json: Cannot coerce value "n/a" of field "age" to INT64',
+        ),
+      );
+    });
+  });
+
+  describe("record filter", () => {
+    it("should infer from and write only the records matching --where", async () => {
+      vol.fromJSON({
+        "/test/users.json": JSON.stringify([
+          { name: "a", active: true, age: 30 },
+          { name: "b", active: false, age: 40, note: "left" },
+          { name: "c", active: true, age: 12 },
+        ]),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/users.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        where: "active == true && age >= 18",
+      });
+      await merger.run();
+
+      // The filtered record's "note" field is not part of the schema
+      expect(Object.keys(vi.mocked(ParquetSchema).mock.calls[0][0])).toEqual([
+        "name",
+        "active",
+        "age",
+      ]);
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ name: "a", active: true, age: 30 }],
+      ]);
+      expect(console.log).toHaveBeenCalledWith(
+        "🔎 Filtered out 2 of 3 records with --where",
+      );
+    });
+  });
+
+  describe("deduplicated records", () => {
+    it("should write one row per key across files and report the dropped ones", async () => {
+      vol.fromJSON({
+        "/test/input/monday.jsonl":
+          '{"id": 1, "updated_at": 3}\n{"id": 2, "updated_at": 1}\n',
+        "/test/input/tuesday.jsonl":
+          '{"id": 2, "updated_at": 4}\n{"id": 1, "updated_at": 2}\n',
+      });
+      vol.mkdirSync(os.tmpdir(), { recursive: true });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const { glob } = await import("glob");
+      vi.mocked(glob).mockResolvedValue([
+        "/test/input/monday.jsonl",
+        "/test/input/tuesday.jsonl",
+      ]);
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        dedupeKey: ["id"],
+        dedupePolicy: { keep: "max", field: "updated_at" },
+      });
+      await merger.run();
+
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ id: 1, updated_at: 3 }],
+        [{ id: 2, updated_at: 4 }],
+      ]);
+      expect(console.log).toHaveBeenCalledWith(
+        "🧹 Dropped 2 duplicate rows by id, keeping max(updated_at)",
+      );
+      // The spilled rows are removed once written
+      expect(vol.readdirSync(os.tmpdir())).toEqual([]);
+    });
+
+    it("should fail before writing when a dedupe column is not in the schema", async () => {
+      vol.fromJSON({ "/test/events.json": '[{"id": 1}]' });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        dedupeKey: ["id"],
+        dedupePolicy: { keep: "max", field: "updated_at" },
+      });
+
+      await expect(merger.run()).rejects.toThrow("Processing failed");
+      expect(console.error).toHaveBeenCalledWith(
+        expect.anything(),
+        'Dedupe column "updated_at" is not in the schema',
+      );
+      expect(ParquetWriter.openFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sorted records", () => {
+    it("should write rows in the order of the sort keys across batches", async () => {
+      vol.fromJSON({
+        "/test/events.jsonl": [
+          '{"id": 1, "created_at": "2024-01-02T00:00:00Z"}',
+          '{"id": 2, "created_at": "2024-01-03T00:00:00Z"}',
+          '{"id": 3}',
+          '{"id": 4, "created_at": "2024-01-02T00:00:00Z"}',
+        ].join("\n"),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.jsonl",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 2,
+        compression: "UNCOMPRESSED" as const,
+        sortBy: [
+          { column: "created_at", descending: true },
+          { column: "id", descending: false },
+        ],
+      });
+      await merger.run();
+
+      expect(
+        mockWriter.appendRow.mock.calls.map(
+          ([row]) => (row as { id: number }).id,
+        ),
+      ).toEqual([2, 1, 4, 3]);
+      expect(console.log).toHaveBeenCalledWith(
+        "🔀 Sorted 4 rows by created_at:desc, id",
+      );
+    });
+
+    it("should fail when a sort column is not in the schema", async () => {
+      vol.fromJSON({ "/test/events.json": '[{"id": 1}]' });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        sortBy: [{ column: "created_at", descending: false }],
+      });
+
+      await expect(merger.run()).rejects.toThrow("Processing failed");
+      expect(console.error).toHaveBeenCalledWith(
+        expect.anything(),
+        'Sort column "created_at" is not in the schema',
+      );
+    });
+  });
+
+  describe("source columns", () => {
+    it("should add the source file, position and ingestion time to each row", async () => {
+      vol.fromJSON({
+        "/test/input/events.jsonl": '{"id": 1}\n{"id": 2}\n',
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/input/events.jsonl",
+        output: "/test/output.parquet",
+        validate: "strict",
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        addSourceColumns: true,
+        sourceColumnNames: {
+          file: "_source_file",
+          index: "row",
+          ingestedAt: "_ingested_at",
+        },
+      });
+      await merger.run();
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT64", optional: true, compression: "UNCOMPRESSED" },
+        _source_file: { type: "UTF8", compression: "UNCOMPRESSED" },
+        row: { type: "INT64", compression: "UNCOMPRESSED" },
+        _ingested_at: { type: "TIMESTAMP_MILLIS", compression: "UNCOMPRESSED" },
+      });
+      const rows = mockWriter.appendRow.mock.calls.map(([row]) => row);
+      expect(rows).toEqual([
+        {
+          id: 1,
+          _source_file: "events.jsonl",
+          row: 0,
+          _ingested_at: expect.any(Date),
+        },
+        {
+          id: 2,
+          _source_file: "events.jsonl",
+          row: 1,
+          _ingested_at: expect.any(Date),
+        },
+      ]);
+      // Every row of a run shares one ingestion time
+      expect(rows[1]._ingested_at).toBe(rows[0]._ingested_at);
+    });
+
+    it("should fail when a source column collides with an input field", async () => {
+      vol.fromJSON({ "/test/events.json": '[{"_source_file": "x"}]' });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const merger = new JsonParquetMerger({
+        input: "/test/events.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        addSourceColumns: true,
+      });
+
+      await expect(merger.run()).rejects.toThrow("Processing failed");
+      expect(console.error).toHaveBeenCalledWith(
+        expect.anything(),
+        'Source column "_source_file" collides with an input field of the same name',
+      );
+    });
+  });
+
+  describe("exploded records", () => {
+    it("should infer from and write one row per array element", async () => {
+      vol.fromJSON({
+        "/test/orders.json": JSON.stringify([
+          {
+            order_id: 1,
+            items: [{ sku: "A", qty: 2 }, { sku: "B" }],
+          },
+          { order_id: 2, items: [] },
+        ]),
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const mockWriter = createMockParquetWriter();
+      vi.mocked(ParquetWriter.openFile).mockResolvedValueOnce(
+        mockWriter as unknown as ParquetWriter,
+      );
+
+      const merger = new JsonParquetMerger({
+        input: "/test/orders.json",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 1000,
+        compression: "UNCOMPRESSED" as const,
+        explode: "items",
+        explodeIndex: "position",
+      });
+      await merger.run();
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        order_id: {
+          type: "INT64",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+        "items.sku": {
+          type: "UTF8",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+        "items.qty": {
+          type: "INT64",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+        position: {
+          type: "INT64",
+          optional: true,
+          compression: "UNCOMPRESSED",
+        },
+      });
+      expect(mockWriter.appendRow.mock.calls).toEqual([
+        [{ order_id: 1, "items.sku": "A", "items.qty": 2, position: 0 }],
+        [{ order_id: 1, "items.sku": "B", position: 1 }],
+      ]);
+      expect(console.log).toHaveBeenCalledWith(
+        '💥 Exploded 2 records into 2 rows by "items"',
+      );
+    });
+  });
+
+  describe("writer options", () => {
+    it("should flush each batch as a row group by default", async () => {
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 500,
+        compression: "UNCOMPRESSED" as const,
+      });
+      await merger["openWriter"](new ParquetSchema({}), "/test/output.parquet");
+
+      expect(ParquetWriter.openFile).toHaveBeenCalledWith(
+        expect.anything(),
+        "/test/output.parquet",
+        { rowGroupSize: 500, pageSize: undefined },
+      );
+    });
+
+    it("should pass explicit row group and page sizes to the writer", async () => {
+      const { ParquetWriter } = await import("@dsnp/parquetjs");
+      const merger = new JsonParquetMerger({
+        input: "/test/input",
+        output: "/test/output.parquet",
+        validate: false,
+        batchSize: 500,
+        compression: "UNCOMPRESSED" as const,
+        rowGroupSize: 100000,
+        pageSize: 2000,
+      });
+      await merger["openWriter"](new ParquetSchema({}), "/test/output.parquet");
+
+      expect(ParquetWriter.openFile).toHaveBeenCalledWith(
+        expect.anything(),
+        "/test/output.parquet",
+        { rowGroupSize: 100000, pageSize: 2000 },
+      );
     });
   });
 
@@ -3,35 +3,251 @@ import {
   type FieldDefinition,
   ParquetSchema,
   ParquetWriter,
+  type WriterOptions,
 } from "@dsnp/parquetjs";
 import chalk from "chalk";
 import { Command } from "commander";
 import * as fs from "fs/promises";
 import { glob } from "glob";
 import * as path from "path";
+import {
+  evolveSchema,
+  readExistingRows,
+  readExistingSchema,
+  temporaryPath,
+} from "./append.js";
+import { coerceRecord } from "./coerce.js";
+import {
+  applyColumnConfig,
+  loadColumnConfig,
+  tuneColumns,
+} from "./column-tuning.js";
+import { stripCompressionExtension } from "./decompress.js";
+import {
+  type DedupePolicy,
+  Deduplicator,
+  formatDedupePolicy,
+  parseDedupePolicy,
+} from "./dedupe.js";
+import { explodeRecord } from "./explode.js";
+import { compileExpression, type Expression } from "./expression.js";
+import { type FlattenArrayMode, RecordFlattener } from "./flatten.js";
+import {
+  deriveFields,
+  JsonSchemaValidator,
+  loadJsonSchema,
+} from "./json-schema.js";
+import { PartitionedWriter, type RecordWriter } from "./partition.js";
+import {
+  type ProjectionOptions,
+  parseRenames,
+  RecordProjection,
+} from "./projection.js";
+import { ReadPool } from "./read-pool.js";
+import {
+  isFileReadError,
+  isJsonRecord,
+  type MalformedLineHandler,
+  notARecordReason,
+  readRecords,
+} from "./reader.js";
+import { parseRecordSelection, type RecordSelection } from "./records-path.js";
+import { type RejectedRecord, RejectWriter } from "./rejects.js";
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  parseSize,
+  RollingWriter,
+} from "./rolling.js";
+import { SchemaInferrer, type TypeWidening } from "./schema.js";
+import { FieldStatsCollector, formatSchema } from "./schema-export.js";
+import { loadSchemaFile } from "./schema-file.js";
+import {
+  ExternalSorter,
+  formatSortKeys,
+  parseSortKeys,
+  type SortKey,
+} from "./sort.js";
+import {
+  DEFAULT_SOURCE_COLUMN_NAMES,
+  parseSourceColumnNames,
+  type SourceColumnNames,
+  type SourcePathMode,
+  sourceColumnFields,
+  sourcePath,
+} from "./source-columns.js";
+import { TEMPORAL_FORMATS } from "./temporal.js";
+import {
+  RecordValidator,
+  VALIDATION_RULES,
+  ValidationReport,
+  type ValidationResult,
+  type ValidationSummary,
+  type Validator,
+} from "./validation.js";
 
 export type CompressionType = "UNCOMPRESSED" | "GZIP" | "SNAPPY" | "BROTLI";
 
-export interface ProcessingOptions {
+export type InputFormat = "auto" | "json" | "ndjson";
+
+export type TypeConflictPolicy = "string" | "error";
+
+export type NestedMode = "json" | "native";
+
+export type TemporalFormat = "iso-timestamp" | "iso-date" | "epoch-millis";
+
+export type SchemaExportFormat = "json" | "duckdb" | "hive";
+
+export type ValidationMode = "strict" | "lenient" | "coerce";
+
+export interface ProcessingOptions extends ProjectionOptions {
   input: string;
   output: string;
   pattern?: string;
-  validate: boolean;
+  /** Validation mode for every record, where `true` means strict */
+  validate: boolean | ValidationMode;
+  /** Rows buffered and flushed together; also the default row group size */
   batchSize: number;
   compression: CompressionType;
+  /** Rows per Parquet row group (default: batchSize) */
+  rowGroupSize?: number;
+  /** Rows per Parquet data page */
+  pageSize?: number;
+  inputFormat?: InputFormat;
+  /** Files read and parsed at once on worker threads (default: 1) */
+  concurrency?: number;
+  /** Key path of the record array inside each document, e.g. `data.items` */
+  recordsPath?: string;
+  /** Envelope values copied onto every record, as `path` or `name=path` */
+  envelopeFields?: string[];
+  /** Predicate that records must satisfy to be inferred from and written */
+  where?: string;
+  /** Array field written as one row per element */
+  explode?: string;
+  /** Column for the position of each exploded element */
+  explodeIndex?: string;
+  /** Levels of nested objects to flatten into columns (`Infinity` for all) */
+  flatten?: number;
+  /** Joins the keys of flattened column names (default: `.`) */
+  flattenSeparator?: string;
+  flattenArrays?: FlattenArrayMode;
+  /** Add columns with the source file, record position and ingestion time */
+  addSourceColumns?: boolean;
+  sourceColumnNames?: SourceColumnNames;
+  /** Form of the source file path (default: relative to the input) */
+  sourcePaths?: SourcePathMode;
+  /** Columns that identify duplicate rows, of which only one is written */
+  dedupeKey?: string[];
+  /** Which row of each key is written (default: the first one read) */
+  dedupePolicy?: DedupePolicy;
+  /** Columns that rows are written in the order of */
+  sortBy?: SortKey[];
+  typeConflict?: TypeConflictPolicy;
+  nested?: NestedMode;
+  detectTemporal?: boolean;
+  temporalFormats?: TemporalFormat[];
+  schema?: string;
+  /** JSON Schema that records are validated against and columns derived from */
+  jsonSchema?: string;
+  /** Export the inferred schema in this format instead of writing Parquet */
+  printSchema?: SchemaExportFormat;
+  /** Combine the existing output file with the new records */
+  append?: boolean;
+  /** Write a Hive-style partitioned directory keyed by these fields */
+  partitionBy?: string[];
+  dropPartitionColumns?: boolean;
+  maxOpenWriters?: number;
+  /** Start a new output file after this many rows */
+  maxRowsPerFile?: number;
+  /** Start a new output file once this many bytes are written */
+  maxFileSize?: number;
+  fileNameTemplate?: string;
+  /** JSON or YAML file with per-column compression and encoding */
+  columnConfig?: string;
+  /** Pick per-column compression and encoding from inferred statistics */
+  autoTuneColumns?: boolean;
+  /** NDJSON file that rejected records are written to */
+  rejectFile?: string;
+  /** Abort once more than this many records are rejected */
+  maxErrors?: number;
 }
 
+export type { TypeWidening } from "./schema.js";
+export type { FieldStats } from "./schema-export.js";
+export type {
+  ValidationIssue,
+  ValidationResult,
+  ValidationSummary,
+} from "./validation.js";
+
 export interface JsonRecord {
   [key: string]: unknown;
 }
 
+/**
+ * Input files by format, plain or compressed (see `COMPRESSION_EXTENSIONS`).
+ * NDJSON is often exported with a `.json` extension, so `ndjson` reads those
+ * too.
+ */
+const FILE_GLOBS: Record<InputFormat, string> = {
+  auto: "**/*.{json,jsonl,ndjson}{,.gz,.br,.zst}",
+  json: "**/*.json{,.gz,.br,.zst}",
+  ndjson: "**/*.{json,jsonl,ndjson}{,.gz,.br,.zst}",
+};
+
 export class JsonParquetMerger {
   private options: ProcessingOptions;
   private inferredSchema: ParquetSchema | null = null;
+  private schemaFields: Record<string, FieldDefinition> = {};
+  private typeWidenings: TypeWidening[] = [];
+  private fieldStats = new FieldStatsCollector();
+  private existingFields: Record<string, FieldDefinition> | null = null;
+  private jsonSchema: Record<string, unknown> | null = null;
+  private validator: Validator | null = null;
+  private validationReport = new ValidationReport();
   private processedCount = 0;
+  private readCount = 0;
+  private filteredCount = 0;
+  private explodedRowCount = 0;
+  private ingestedAt = new Date();
+  private recordSelection: RecordSelection | null;
+  private readPool: ReadPool | null = null;
+  private filter: Expression | null;
+  private flattener: RecordFlattener | null;
+  private projection: RecordProjection | null;
 
   constructor(options: ProcessingOptions) {
     this.options = options;
+    this.recordSelection = parseRecordSelection(
+      options.recordsPath,
+      options.envelopeFields,
+    );
+    this.filter = options.where
+      ? compileExpression(options.where, "--where")
+      : null;
+    this.flattener = options.flatten
+      ? new RecordFlattener({
+          depth: options.flatten,
+          separator: options.flattenSeparator ?? ".",
+          arrays: options.flattenArrays ?? "json",
+        })
+      : null;
+    this.projection = RecordProjection.isActive(options)
+      ? new RecordProjection(options)
+      : null;
+  }
+
+  /**
+   * Fields whose types were widened during the last schema inference.
+   */
+  getTypeWidenings(): TypeWidening[] {
+    return [...this.typeWidenings];
+  }
+
+  /**
+   * Validation results of the records written by the last run.
+   */
+  getValidationSummary(): ValidationSummary {
+    return this.validationReport.summary();
   }
 
   async run(): Promise<void> {
@@ -76,6 +292,84 @@ export class JsonParquetMerger {
     }
   }
 
+  /**
+   * Infers the schema and writes it, with per-field statistics, in the
+   * `printSchema` format to the output path, or to stdout when there is none.
+   * No Parquet file is written.
+   */
+  async exportSchema(): Promise<void> {
+    try {
+      this.log(chalk.blue("🔍 Inferring schema..."));
+
+      const files = await this.discoverFiles();
+      this.log(chalk.green(`📁 Found ${files.length} JSON files to inspect`));
+
+      if (files.length === 0) {
+        throw new Error("No JSON files found matching criteria");
+      }
+
+      await this.inferSchema(files);
+      const stats = this.fieldStats;
+      // A replacing schema file skips the inference pass that gathers stats
+      if (stats.recordCount === 0) {
+        for (const file of files) {
+          for await (const record of this.readFileRecords(file)) {
+            if (!isJsonRecord(record)) continue;
+            for (const row of this.inferenceRows(record)) {
+              stats.observe(row);
+            }
+          }
+        }
+      }
+
+      const input = stripCompressionExtension(this.options.input);
+      const tableName = path
+        .basename(input, path.extname(input))
+        .replace(/[^A-Za-z0-9_]/g, "_");
+      // Source columns are only filled when writing, so they have no stats
+      const sourceFields = this.sourceColumnFields() ?? {};
+      const output = formatSchema(
+        this.options.printSchema ?? "json",
+        this.schemaFields,
+        stats.stats(
+          Object.keys(this.schemaFields).filter(
+            (name) => !(name in sourceFields),
+          ),
+        ),
+        tableName,
+      );
+
+      if (this.options.output) {
+        await fs.writeFile(this.options.output, output);
+        this.log(
+          chalk.green(
+            `✅ Wrote schema of ${stats.recordCount} records to ${this.options.output}`,
+          ),
+        );
+      } else {
+        process.stdout.write(output);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Error:"),
+        error instanceof Error ? error.message : String(error),
+      );
+      throw new Error("Schema export failed");
+    }
+  }
+
+  /**
+   * Logs progress to stdout, or to stderr when stdout carries an exported
+   * schema.
+   */
+  private log(message: string): void {
+    if (this.options.printSchema && !this.options.output) {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+  }
+
   private async discoverFiles(): Promise<string[]> {
     let searchPattern: string;
 
@@ -87,7 +381,10 @@ export class JsonParquetMerger {
     }
 
     if (inputStat?.isDirectory()) {
-      searchPattern = path.join(this.options.input, "**/*.json");
+      searchPattern = path.join(
+        this.options.input,
+        FILE_GLOBS[this.options.inputFormat ?? "auto"],
+      );
     } else {
       throw new Error(`Input path ${this.options.input} does not exist`);
     }
@@ -103,176 +400,373 @@ export class JsonParquetMerger {
     return files;
   }
 
-  private async inferSchema(files: string[]): Promise<void> {
-    // Collect all unique field names and their types across all files
-    const schemaFields: Record<string, FieldDefinition> = {};
-    const allFields = new Set<string>();
-
-    // First pass: collect all field names from all files
-    for (const file of files) {
-      const content = await fs.readFile(file, "utf-8");
-      let jsonData: JsonRecord[];
-
-      try {
-        const parsed = JSON.parse(content);
-        jsonData = Array.isArray(parsed) ? parsed : [parsed];
-      } catch (error) {
-        throw new Error(`Failed to parse JSON from ${file}: ${error}`);
-      }
+  private readFileRecords(
+    file: string,
+    onMalformed?: MalformedLineHandler,
+  ): AsyncGenerator<JsonRecord> {
+    if (this.readPool) return this.readPool.read(file, onMalformed);
+    return readRecords(
+      file,
+      this.options.inputFormat ?? "auto",
+      onMalformed,
+      this.recordSelection,
+    );
+  }
 
-      if (jsonData.length === 0) {
-        continue; // Skip empty files
-      }
+  private async inferSchema(files: string[]): Promise<void> {
+    this.fieldStats = new FieldStatsCollector();
 
-      // Collect all field names from this file
-      for (const record of jsonData) {
-        for (const key of Object.keys(record)) {
-          allFields.add(key);
-        }
-      }
+    // A JSON Schema describes every column up front, so nothing is inferred
+    if (this.options.jsonSchema) {
+      this.log(
+        chalk.blue(`📐 Using JSON Schema from ${this.options.jsonSchema}`),
+      );
+      this.jsonSchema = await loadJsonSchema(this.options.jsonSchema);
+      this.typeWidenings = [];
+      await this.applySchema(
+        deriveFields(
+          this.jsonSchema,
+          {
+            compression: this.options.compression,
+            nested: this.options.nested ?? "json",
+          },
+          this.options.jsonSchema,
+        ),
+      );
+      return;
     }
 
-    if (allFields.size === 0) {
-      throw new Error("No fields found in any of the input files");
-    }
+    const schemaFile = this.options.schema
+      ? await loadSchemaFile(this.options.schema, this.options.compression)
+      : null;
 
-    // Second pass: for each field, find the first non-null value across all files
-    for (const fieldName of allFields) {
-      let inferredType: FieldDefinition | null = null;
+    // A replacing schema file skips inference entirely
+    if (schemaFile?.mode === "replace") {
+      this.log(chalk.blue(`📐 Using schema from ${this.options.schema}`));
+      this.typeWidenings = [];
+      await this.applySchema(schemaFile.fields);
+      return;
+    }
+    const pinnedFields = schemaFile?.fields ?? {};
 
-      // Search across all files until we find a non-null value for this field
-      fileLoop: for (const file of files) {
-        const content = await fs.readFile(file, "utf-8");
-        let jsonData: JsonRecord[];
+    // Collect all unique field names and their types across all files in a
+    // single streaming pass, widening types as later values require
+    const inferrer = new SchemaInferrer({
+      typeConflict: this.options.typeConflict ?? "string",
+      nested: this.options.nested ?? "json",
+      temporalFormats:
+        this.options.detectTemporal === false
+          ? []
+          : (this.options.temporalFormats ?? TEMPORAL_FORMATS),
+    });
 
+    this.openReadPool(files);
+    try {
+      for (const file of files) {
         try {
-          const parsed = JSON.parse(content);
-          jsonData = Array.isArray(parsed) ? parsed : [parsed];
-        } catch {
-          continue; // Skip files that can't be parsed
-        }
-
-        for (const record of jsonData) {
-          const value = record[fieldName];
-          if (value !== null && value !== undefined) {
-            if (typeof value === "string") {
-              inferredType = {
-                type: "UTF8",
-                compression: this.options.compression,
-                optional: true,
-              };
-              break fileLoop;
-            } else if (typeof value === "number") {
-              inferredType = Number.isInteger(value)
-                ? {
-                    type: "INT64",
-                    compression: this.options.compression,
-                    optional: true,
-                  }
-                : {
-                    type: "DOUBLE",
-                    compression: this.options.compression,
-                    optional: true,
-                  };
-              break fileLoop;
-            } else if (typeof value === "boolean") {
-              inferredType = {
-                type: "BOOLEAN",
-                compression: this.options.compression,
-                optional: true,
-              };
-              break fileLoop;
-            } else if (value instanceof Date) {
-              inferredType = {
-                type: "TIMESTAMP_MILLIS",
-                compression: this.options.compression,
-                optional: true,
-              };
-              break fileLoop;
-            } else {
-              // Convert objects/arrays to JSON strings
-              inferredType = {
-                type: "UTF8",
-                compression: this.options.compression,
-                optional: true,
-              };
-              break fileLoop;
+          let index = 0;
+          // Malformed lines are left out here and rejected when writing
+          for await (const record of this.readFileRecords(file, () => {})) {
+            const recordIndex = index++;
+            // Values that are not objects are rejected when writing
+            if (!isJsonRecord(record)) continue;
+            for (const row of this.inferenceRows(record)) {
+              inferrer.observe(
+                omitFields(row, pinnedFields),
+                file,
+                recordIndex,
+              );
+              this.fieldStats.observe(row);
             }
           }
+        } catch (error) {
+          if (!isFileReadError(error)) {
+            throw new Error(`Failed to parse JSON from ${file}: ${error}`);
+          }
+          // The records before the error are still written
+          console.warn(
+            chalk.yellow(
+              `⚠️  Failed to parse JSON from ${file}: ${error.message}. Records after the error are rejected`,
+            ),
+          );
         }
       }
+    } finally {
+      await this.closeReadPool();
+    }
 
-      // If all values are null across all files, default to UTF8
-      schemaFields[fieldName] = inferredType || {
-        type: "UTF8",
-        compression: this.options.compression,
-        optional: true,
-      };
+    if (inferrer.fieldCount === 0 && Object.keys(pinnedFields).length === 0) {
+      throw new Error("No fields found in any of the input files");
     }
 
-    this.inferredSchema = new ParquetSchema(schemaFields);
+    const { fields: inferredFields, widenings } = inferrer.build(
+      this.options.compression,
+    );
+    // Pinned fields keep their inferred position, or are appended
+    const fields = { ...inferredFields, ...pinnedFields };
+    for (const widening of widenings) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  Field "${widening.field}" widened from ${widening.from} to ${widening.to}: ${widening.reason}`,
+        ),
+      );
+    }
+
+    this.typeWidenings = widenings;
+    await this.applySchema(fields);
   }
 
-  private async validateSchema(records: JsonRecord[]): Promise<boolean> {
-    if (!this.options.validate) return true;
+  /**
+   * Starts reading the files on worker threads when `--concurrency` is above
+   * 1. Their records are still consumed one file at a time, in order.
+   */
+  private openReadPool(files: string[]): void {
+    const concurrency = this.options.concurrency ?? 1;
+    if (concurrency <= 1 || files.length < 2) return;
+    this.readPool = new ReadPool(files, {
+      concurrency,
+      format: this.options.inputFormat ?? "auto",
+      selection: this.recordSelection,
+    });
+  }
 
-    const schemaKeys = Object.keys(this.inferredSchema!.fields);
-    let isValid = true;
-    const validationErrors: string[] = [];
+  private async closeReadPool(): Promise<void> {
+    await this.readPool?.close();
+    this.readPool = null;
+  }
 
-    for (const record of records) {
-      const recordKeys = Object.keys(record);
+  /**
+   * Uses the given fields as the output schema. When appending to an existing
+   * output, its schema is evolved to also hold the given fields.
+   */
+  private async applySchema(
+    fields: Record<string, FieldDefinition>,
+  ): Promise<void> {
+    this.existingFields = this.options.append
+      ? await readExistingSchema(this.options.output, this.options.compression)
+      : null;
 
-      // Check for missing fields
-      const missingFields = schemaKeys.filter((key) => !(key in record));
-      if (missingFields.length > 0) {
-        isValid = false;
-        const errorMsg = `Missing fields in record: ${missingFields.join(", ")}`;
-        validationErrors.push(errorMsg);
-        console.warn(chalk.yellow(`⚠️  ${errorMsg}`));
+    const sourceFields = this.sourceColumnFields();
+    if (sourceFields) {
+      const collision = Object.keys(sourceFields).find(
+        (name) => name in fields,
+      );
+      if (collision !== undefined) {
+        throw new Error(
+          `Source column "${collision}" collides with an input field of the same name`,
+        );
       }
+      fields = { ...fields, ...sourceFields };
+    }
 
-      // Check for extra fields
-      const extraFields = recordKeys.filter((key) => !schemaKeys.includes(key));
-      if (extraFields.length > 0) {
-        isValid = false;
-        const errorMsg = `Extra fields in record: ${extraFields.join(", ")}`;
-        validationErrors.push(errorMsg);
-        console.warn(chalk.yellow(`⚠️  ${errorMsg}`));
+    if (this.existingFields) {
+      const evolution = evolveSchema(
+        this.existingFields,
+        fields,
+        this.options.typeConflict ?? "string",
+        this.options.output,
+      );
+      for (const change of evolution.changes) {
+        console.warn(chalk.yellow(`⚠️  ${change}`));
       }
+      fields = evolution.fields;
     }
 
-    return isValid;
+    if (this.options.autoTuneColumns) {
+      // Columns of an existing output hold values the stats have not seen
+      const existing = this.existingFields ?? {};
+      const stats = this.fieldStats.stats(
+        Object.keys(fields).filter((name) => !(name in existing)),
+      );
+      const tuning = tuneColumns(fields, stats);
+      for (const choice of tuning.choices) {
+        const settings = [choice.compression, choice.encoding]
+          .filter(Boolean)
+          .join(", ");
+        this.log(
+          chalk.gray(
+            `   Column "${choice.field}": ${settings} (${choice.reason})`,
+          ),
+        );
+      }
+      fields = tuning.fields;
+    }
+    if (this.options.columnConfig) {
+      fields = applyColumnConfig(
+        fields,
+        await loadColumnConfig(this.options.columnConfig),
+        this.options.columnConfig,
+      );
+    }
+
+    this.schemaFields = fields;
+    const mode =
+      this.options.validate === true ? "strict" : this.options.validate;
+    if (this.jsonSchema) {
+      // Records are always checked against a JSON Schema
+      this.validator = new JsonSchemaValidator(
+        this.jsonSchema,
+        { coerceTypes: mode === "coerce" },
+        this.options.jsonSchema ?? "",
+      );
+    } else {
+      // Source columns are added after records are validated
+      this.validator = mode
+        ? new RecordValidator(
+            omitFields(fields, sourceFields ?? {}),
+            VALIDATION_RULES[mode],
+            new Set(
+              this.typeWidenings
+                .filter((widening) => widening.to === "UTF8")
+                .map((widening) => widening.field),
+            ),
+          )
+        : null;
+    }
+    this.inferredSchema = new ParquetSchema(fields);
   }
 
-  private transformRecord(record: JsonRecord): JsonRecord {
-    const transformed: JsonRecord = {};
-
-    for (const [key, value] of Object.entries(record)) {
-      if (value === null || value === undefined) {
-        transformed[key] = null;
-      } else if (typeof value === "object" && !(value instanceof Date)) {
-        // Convert objects/arrays to JSON strings
-        transformed[key] = JSON.stringify(value);
-      } else {
-        transformed[key] = value;
-      }
+  private validateRecord(record: JsonRecord): ValidationResult {
+    const result = this.validator?.validate(record) ?? {
+      valid: true,
+      issues: [],
+    };
+    this.validationReport.add(result);
+    return result;
+  }
+
+  /**
+   * Flattens a record and applies the column projection as it is read,
+   * before schema inference and validation, so the schema holds the
+   * projected columns.
+   */
+  private projectRecord(record: JsonRecord): JsonRecord {
+    const flattened = this.flattener ? this.flattener.flatten(record) : record;
+    return this.projection ? this.projection.apply(flattened) : flattened;
+  }
+
+  /**
+   * Returns true when a record satisfies `--where`. Throws when the predicate
+   * cannot be evaluated for it.
+   */
+  private matchesFilter(record: JsonRecord): boolean {
+    return !this.filter || this.filter(record) === true;
+  }
+
+  /**
+   * Expands a record into one row per element of the `--explode` field, or
+   * returns it as the only row.
+   */
+  private explodeRecord(record: JsonRecord): JsonRecord[] {
+    if (!this.options.explode) return [record];
+    return explodeRecord(record, {
+      field: this.options.explode,
+      indexColumn: this.options.explodeIndex,
+      separator: this.options.flattenSeparator ?? ".",
+    });
+  }
+
+  /**
+   * Filters, explodes and projects a record into the rows that schema
+   * inference sees. Records that fail to evaluate are left out here, and
+   * rejected when writing.
+   */
+  private inferenceRows(record: JsonRecord): JsonRecord[] {
+    try {
+      if (!this.matchesFilter(record)) return [];
+      return this.explodeRecord(record).map((row) => this.projectRecord(row));
+    } catch {
+      return [];
     }
+  }
 
-    return transformed;
+  /**
+   * Schema fields of the `--add-source-columns` lineage columns, if enabled.
+   */
+  private sourceColumnFields(): Record<string, FieldDefinition> | null {
+    if (!this.options.addSourceColumns) return null;
+    return sourceColumnFields(
+      this.options.sourceColumnNames ?? DEFAULT_SOURCE_COLUMN_NAMES,
+      this.options.compression,
+    );
+  }
+
+  /**
+   * Sets the lineage columns of a row read from the given position of a file.
+   */
+  private addSourceColumns(
+    record: JsonRecord,
+    file: string,
+    index: number,
+  ): JsonRecord {
+    if (!this.options.addSourceColumns) return record;
+    const names = this.options.sourceColumnNames ?? DEFAULT_SOURCE_COLUMN_NAMES;
+    return {
+      ...record,
+      [names.file]: sourcePath(
+        file,
+        this.options.input,
+        this.options.sourcePaths ?? "relative",
+      ),
+      [names.index]: index,
+      [names.ingestedAt]: this.ingestedAt,
+    };
+  }
+
+  private transformRecord(record: JsonRecord): JsonRecord {
+    return coerceRecord(record, this.schemaFields);
   }
 
   private async processFiles(files: string[]): Promise<void> {
+    if (!this.existingFields) {
+      await this.writeOutput(files, this.options.output);
+      return;
+    }
+
+    // Write the combined output next to the existing file and swap it in only
+    // once complete, so a failed run leaves the existing output untouched
+    const temporaryFile = temporaryPath(this.options.output);
+    try {
+      await this.writeOutput(files, temporaryFile);
+      await fs.rename(temporaryFile, this.options.output);
+    } catch (error) {
+      await fs.rm(temporaryFile, { force: true });
+      throw error;
+    }
+  }
+
+  private async writeOutput(files: string[], target: string): Promise<void> {
     if (!this.inferredSchema) {
       throw new Error("Schema not inferred");
     }
-    const writer = await ParquetWriter.openFile(
-      this.inferredSchema,
-      this.options.output,
-    );
+    this.checkDedupeColumns();
+    this.checkSortColumns();
+    const writer = await this.openWriter(this.inferredSchema, target);
+    const rejects = await RejectWriter.open({
+      file: this.options.rejectFile,
+      maxErrors: this.options.maxErrors,
+    });
+    this.validationReport = new ValidationReport();
+    this.readCount = 0;
+    this.filteredCount = 0;
+    this.explodedRowCount = 0;
+    this.ingestedAt = new Date();
     let currentBatch: JsonRecord[] = [];
+    let deduplicator: Deduplicator | null = null;
+    const sorter = this.options.sortBy?.length
+      ? new ExternalSorter({ keys: this.options.sortBy })
+      : null;
 
     try {
+      // Rows are held back until every file is read when deduplicating or
+      // sorting
+      deduplicator = await this.openDeduplicator();
+      const heldBack = deduplicator ?? sorter;
+      if (this.existingFields) {
+        await this.copyExistingRows(writer, heldBack);
+      }
+      this.openReadPool(files);
+
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
 
@@ -280,35 +774,108 @@ export class JsonParquetMerger {
           chalk.blue(`📄 Processing file ${i + 1}/${files.length}: ${file}`),
         );
 
-        const content = await fs.readFile(file, "utf-8");
-        let jsonData: JsonRecord[];
+        // Malformed NDJSON lines are collected while reading and rejected
+        // before the record that follows them
+        const malformed: RejectedRecord[] = [];
+        let index = 0;
+        const records = this.readFileRecords(file, (error, line) => {
+          malformed.push({ file, index: index++, reason: error.message, line });
+        });
 
+        // Stream records in batches so memory stays bounded per file
         try {
-          const parsed = JSON.parse(content);
-          jsonData = Array.isArray(parsed) ? parsed : [parsed];
-        } catch (error) {
-          console.error(chalk.red(`❌ Failed to parse ${file}:`), error);
-          continue;
-        }
+          for await (const inputRecord of records) {
+            for (const entry of malformed.splice(0)) {
+              await this.rejectRecord(rejects, entry);
+            }
+            const recordIndex = index++;
+            this.readCount++;
+            if (!isJsonRecord(inputRecord)) {
+              await this.rejectRecord(rejects, {
+                file,
+                index: recordIndex,
+                reason: notARecordReason(inputRecord),
+                record: inputRecord,
+              });
+              continue;
+            }
 
-        // Validate schema if enabled
-        const isValid = await this.validateSchema(jsonData);
-        if (!isValid) {
-          console.error(
-            chalk.red(`❌ Schema validation failed for ${file}, skipping file`),
-          );
-          continue;
-        }
+            let rows: JsonRecord[];
+            try {
+              if (!this.matchesFilter(inputRecord)) {
+                this.filteredCount++;
+                continue;
+              }
+              rows = this.explodeRecord(inputRecord).map((row) =>
+                this.projectRecord(row),
+              );
+            } catch (error) {
+              await this.rejectRecord(rejects, {
+                file,
+                index: recordIndex,
+                reason: error instanceof Error ? error.message : String(error),
+                record: inputRecord,
+              });
+              continue;
+            }
+            this.explodedRowCount += rows.length;
 
-        // Process records in batches
-        for (const record of jsonData) {
-          const transformedRecord = this.transformRecord(record);
-          currentBatch.push(transformedRecord);
+            // Exploded rows are checked and written one by one
+            for (const record of rows) {
+              // Validation failures are summarized once the run completes
+              const validation = this.validateRecord(record);
+              if (!validation.valid) {
+                await rejects.reject({
+                  file,
+                  index: recordIndex,
+                  reason: validation.issues
+                    .map((issue) => issue.message)
+                    .join("; "),
+                  record,
+                  issues: validation.issues,
+                });
+                continue;
+              }
 
-          if (currentBatch.length >= this.options.batchSize) {
-            await this.writeBatch(writer, currentBatch);
-            currentBatch = [];
+              let transformedRecord: JsonRecord;
+              try {
+                transformedRecord = this.transformRecord(
+                  this.addSourceColumns(record, file, recordIndex),
+                );
+              } catch (error) {
+                await this.rejectRecord(rejects, {
+                  file,
+                  index: recordIndex,
+                  reason:
+                    error instanceof Error ? error.message : String(error),
+                  record,
+                });
+                continue;
+              }
+              if (heldBack) {
+                await heldBack.add(transformedRecord);
+                continue;
+              }
+              currentBatch.push(transformedRecord);
+
+              if (currentBatch.length >= this.options.batchSize) {
+                await this.writeBatch(writer, currentBatch);
+                currentBatch = [];
+              }
+            }
           }
+        } catch (error) {
+          if (!isFileReadError(error)) throw error;
+          // Nothing after a syntax error in a JSON document can be read, and
+          // nothing at all from a document without the records path
+          await this.rejectRecord(rejects, {
+            file,
+            index,
+            reason: `${error.message} (the rest of the file could not be read)`,
+          });
+        }
+        for (const entry of malformed.splice(0)) {
+          await this.rejectRecord(rejects, entry);
         }
 
         // Show progress
@@ -320,17 +887,239 @@ export class JsonParquetMerger {
         );
       }
 
+      if (heldBack) {
+        for await (const row of this.heldBackRows(deduplicator, sorter)) {
+          currentBatch.push(row);
+          if (currentBatch.length >= this.options.batchSize) {
+            await this.writeBatch(writer, currentBatch);
+            currentBatch = [];
+          }
+        }
+      }
+
       // Write remaining records
       if (currentBatch.length > 0) {
         await this.writeBatch(writer, currentBatch);
       }
     } finally {
+      await this.closeReadPool();
       await writer.close();
+      await rejects.close();
+      await deduplicator?.close();
+      await sorter?.close();
+      this.logValidationSummary();
+    }
+
+    if (this.filter) {
+      console.log(
+        chalk.blue(
+          `🔎 Filtered out ${this.filteredCount} of ${this.readCount} records with --where`,
+        ),
+      );
+    }
+    if (this.options.explode) {
+      console.log(
+        chalk.blue(
+          `💥 Exploded ${this.readCount - this.filteredCount} records into ${this.explodedRowCount} rows by "${this.options.explode}"`,
+        ),
+      );
+    }
+    if (deduplicator) {
+      console.log(
+        chalk.blue(
+          `🧹 Dropped ${deduplicator.droppedCount} duplicate rows by ${this.options.dedupeKey?.join(", ")}, keeping ${formatDedupePolicy(this.dedupePolicy())}`,
+        ),
+      );
+    }
+    if (sorter) {
+      const runs = sorter.spilledRunCount;
+      const merged = runs > 0 ? `, merging ${runs} sorted runs from disk` : "";
+      console.log(
+        chalk.blue(
+          `🔀 Sorted ${sorter.rowCount} rows by ${formatSortKeys(this.options.sortBy ?? [])}${merged}`,
+        ),
+      );
+    }
+    if (rejects.rejectedCount > 0) {
+      const destination = this.options.rejectFile
+        ? `, written to ${this.options.rejectFile}`
+        : "";
+      console.warn(
+        chalk.yellow(
+          `⚠️  Rejected ${rejects.rejectedCount} records${destination}`,
+        ),
+      );
     }
+    if (writer instanceof PartitionedWriter) {
+      console.log(
+        chalk.green(
+          `📂 Wrote ${writer.partitionCount} partitions under ${target}`,
+        ),
+      );
+    } else if (writer instanceof RollingWriter) {
+      console.log(
+        chalk.green(
+          `📂 Wrote ${writer.files.length} files, listed in ${writer.manifestPath}`,
+        ),
+      );
+    }
+  }
+
+  private dedupePolicy(): DedupePolicy {
+    return this.options.dedupePolicy ?? { keep: "first" };
+  }
+
+  /**
+   * Throws when a column of `--dedupe-key` or of a `max()` policy is not in
+   * the schema.
+   */
+  private checkDedupeColumns(): void {
+    const keys = this.options.dedupeKey ?? [];
+    if (keys.length === 0) return;
+
+    const policy = this.dedupePolicy();
+    const columns = policy.keep === "max" ? [...keys, policy.field] : keys;
+    for (const column of columns) {
+      if (!(column in this.schemaFields)) {
+        throw new Error(`Dedupe column "${column}" is not in the schema`);
+      }
+    }
+  }
+
+  /**
+   * Throws when a column of `--sort-by` is not a top-level column of the
+   * schema.
+   */
+  private checkSortColumns(): void {
+    for (const { column } of this.options.sortBy ?? []) {
+      const field = this.schemaFields[column];
+      if (!field) {
+        throw new Error(`Sort column "${column}" is not in the schema`);
+      }
+      if (field.fields || field.repeated) {
+        throw new Error(`Sort column "${column}" is a nested column`);
+      }
+    }
+  }
+
+  /**
+   * Streams the rows held back while reading, deduplicated and then sorted.
+   */
+  private async *heldBackRows(
+    deduplicator: Deduplicator | null,
+    sorter: ExternalSorter | null,
+  ): AsyncGenerator<JsonRecord> {
+    if (!sorter) {
+      if (deduplicator) yield* deduplicator.keptRows();
+      return;
+    }
+    if (deduplicator) {
+      for await (const row of deduplicator.keptRows()) await sorter.add(row);
+    }
+    yield* sorter.sortedRows();
+  }
+
+  private async openDeduplicator(): Promise<Deduplicator | null> {
+    if (!this.options.dedupeKey?.length) return null;
+    return Deduplicator.open({
+      keys: this.options.dedupeKey,
+      policy: this.dedupePolicy(),
+    });
+  }
+
+  private async openWriter(
+    schema: ParquetSchema,
+    target: string,
+  ): Promise<RecordWriter> {
+    // Each full batch is flushed as one row group unless set explicitly
+    const writerOptions: WriterOptions = {
+      rowGroupSize: this.options.rowGroupSize ?? this.options.batchSize,
+      pageSize: this.options.pageSize,
+    };
+
+    if (this.options.partitionBy?.length) {
+      return new PartitionedWriter(this.schemaFields, target, {
+        fields: this.options.partitionBy,
+        dropColumns: this.options.dropPartitionColumns ?? false,
+        maxOpenWriters: this.options.maxOpenWriters ?? 32,
+        writerOptions,
+      });
+    }
+    if (this.options.maxRowsPerFile || this.options.maxFileSize) {
+      return new RollingWriter(schema, target, {
+        maxRows: this.options.maxRowsPerFile,
+        maxBytes: this.options.maxFileSize,
+        template: this.options.fileNameTemplate ?? DEFAULT_FILE_NAME_TEMPLATE,
+        writerOptions,
+      });
+    }
+    return ParquetWriter.openFile(schema, target, writerOptions);
+  }
+
+  private logValidationSummary(): void {
+    const { checked, failed, issues } = this.validationReport.summary();
+    if (failed === 0) return;
+
+    const mode = this.jsonSchema
+      ? "JSON Schema"
+      : this.options.validate === true
+        ? "strict"
+        : this.options.validate;
+    console.warn(
+      chalk.yellow(
+        `⚠️  ${failed} of ${checked} records failed ${mode} validation`,
+      ),
+    );
+    for (const { field, rule, count } of issues) {
+      console.warn(chalk.yellow(`   Field "${field}": ${rule} (${count})`));
+    }
+  }
+
+  private async rejectRecord(
+    rejects: RejectWriter,
+    entry: RejectedRecord,
+  ): Promise<void> {
+    console.error(
+      chalk.red(
+        `❌ Skipping record ${entry.index} of ${entry.file}: ${entry.reason}`,
+      ),
+    );
+    await rejects.reject(entry);
+  }
+
+  /**
+   * Copies the rows of the existing output ahead of the new records. When
+   * deduplicating or sorting, they are held back along with the new rows, as
+   * if read from a first input file.
+   */
+  private async copyExistingRows(
+    writer: RecordWriter,
+    heldBack: Deduplicator | ExternalSorter | null,
+  ): Promise<void> {
+    let count = 0;
+    for await (const row of readExistingRows(
+      this.options.output,
+      this.schemaFields,
+    )) {
+      const record = this.transformRecord(row);
+      // Held back rows are counted once written, like the new ones
+      if (heldBack) {
+        await heldBack.add(record);
+      } else {
+        await writer.appendRow(record);
+        this.processedCount++;
+      }
+      count++;
+    }
+    console.log(
+      chalk.gray(
+        `   Copied ${count} existing records from ${this.options.output}`,
+      ),
+    );
   }
 
   private async writeBatch(
-    writer: ParquetWriter,
+    writer: RecordWriter,
     batch: JsonRecord[],
   ): Promise<void> {
     for (const record of batch) {
@@ -341,6 +1130,18 @@ export class JsonParquetMerger {
   }
 }
 
+function omitFields<T>(
+  record: Record<string, T>,
+  fields: Record<string, unknown>,
+): Record<string, T> {
+  if (Object.keys(fields).length === 0) return record;
+  const remaining: Record<string, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!(key in fields)) remaining[key] = value;
+  }
+  return remaining;
+}
+
 async function main(): Promise<void> {
   const program = new Command();
 
@@ -351,21 +1152,202 @@ async function main(): Promise<void> {
     )
     .version("1.0.0")
     .requiredOption("-i, --input <path>", "Input directory or file path")
-    .requiredOption("-o, --output <path>", "Output Parquet file path")
+    .option(
+      "-o, --output <path>",
+      "Output Parquet file path (schema file path with --print-schema)",
+    )
     .option(
       "-p, --pattern <regex>",
       "Regular expression pattern for filtering JSON files",
     )
-    .option("--validate", "Enable schema validation across all files", false)
+    .option(
+      "--validate [mode]",
+      "Validate every record: strict, lenient, coerce (default: strict)",
+      false,
+    )
     .option(
       "-b, --batch-size <number>",
       "Batch size for processing records",
       "1000",
     )
+    .option(
+      "--row-group-size <number>",
+      "Rows per Parquet row group (default: batch size)",
+    )
+    .option("--page-size <number>", "Rows per Parquet data page", "8192")
     .option(
       "-c, --compression <type>",
       "Compression type: uncompressed, gzip, snappy, brotli",
       "uncompressed",
+    )
+    .option(
+      "--input-format <format>",
+      "Input format: auto (by file extension), json, ndjson",
+      "auto",
+    )
+    .option(
+      "--concurrency <number>",
+      "Files read and parsed at once on worker threads",
+      "1",
+    )
+    .option(
+      "--records-path <path>",
+      "Key path of the record array inside each document (e.g. data.items)",
+    )
+    .option(
+      "--envelope-fields <fields>",
+      "Comma-separated envelope values to copy onto every record, as path or name=path (e.g. meta.fetched_at)",
+    )
+    .option(
+      "--where <predicate>",
+      'Only keep records for which the predicate is true (e.g. "active == true && age >= 18")',
+    )
+    .option(
+      "--explode <field>",
+      "Write one row per element of this array field, carrying the other fields",
+    )
+    .option(
+      "--explode-index [column]",
+      "Add a column with the position of each exploded element (default: <field>_index)",
+    )
+    .option(
+      "--flatten [depth]",
+      "Flatten nested objects into top-level columns, up to this many levels (default: all)",
+    )
+    .option(
+      "--flatten-separator <separator>",
+      "Separator of flattened column names",
+      ".",
+    )
+    .option(
+      "--flatten-arrays <mode>",
+      "How --flatten handles arrays: json (keep as values), index (a column per position)",
+      "json",
+    )
+    .option(
+      "--include <fields>",
+      "Comma-separated columns to keep, after renaming; all others are dropped",
+    )
+    .option(
+      "--exclude <fields>",
+      "Comma-separated columns to drop, after renaming",
+    )
+    .option(
+      "--rename <pairs>",
+      "Comma-separated new=old field renames (e.g. user_id=userId)",
+    )
+    .option(
+      "--compute <column>",
+      "Computed column as name = expression (e.g. \"full_name = first || ' ' || last\"); repeatable",
+      (column: string, columns: string[]) => [...columns, column],
+      [],
+    )
+    .option(
+      "--dedupe-key <fields>",
+      "Comma-separated columns that identify duplicate rows, of which only one is written",
+    )
+    .option(
+      "--dedupe-policy <policy>",
+      "Which duplicate to keep: first, last, max(<column>) (e.g. max(updated_at))",
+      "first",
+    )
+    .option(
+      "--sort-by <columns>",
+      "Comma-separated columns to order rows by, each as column, column:asc or column:desc",
+    )
+    .option(
+      "--add-source-columns",
+      "Add _source_file, _source_index and _ingested_at lineage columns to every row",
+      false,
+    )
+    .option(
+      "--source-column-names <pairs>",
+      "Comma-separated names of the lineage columns (e.g. file=src_file,index=src_row,ingested_at=loaded_at)",
+    )
+    .option(
+      "--source-paths <mode>",
+      "Form of the source file column: relative (to the input), absolute",
+      "relative",
+    )
+    .option(
+      "--type-conflict <policy>",
+      "How to resolve fields with mixed value types: string, error",
+      "string",
+    )
+    .option(
+      "--nested <mode>",
+      "How to store objects and arrays: json (JSON strings), native (Parquet groups and lists)",
+      "json",
+    )
+    .option(
+      "--no-detect-temporal",
+      "Disable detection of dates and timestamps in string values",
+    )
+    .option(
+      "--temporal-formats <formats>",
+      "Comma-separated string formats detected as dates and timestamps: iso-timestamp, iso-date, epoch-millis",
+      TEMPORAL_FORMATS.join(","),
+    )
+    .option(
+      "--schema <file>",
+      "JSON or YAML schema file that replaces or overrides inference",
+    )
+    .option(
+      "--json-schema <file>",
+      "JSON Schema to validate records against and derive the Parquet schema from",
+    )
+    .option(
+      "--column-config <file>",
+      "JSON or YAML file with per-column compression and encoding",
+    )
+    .option(
+      "--auto-tune-columns",
+      "Pick per-column compression and encoding from the values seen during inference",
+      false,
+    )
+    .option(
+      "--reject-file <file>",
+      "Write records that fail validation or parsing to this NDJSON file",
+    )
+    .option(
+      "--max-errors <number>",
+      "Abort once more than this many records are rejected",
+    )
+    .option(
+      "--append",
+      "Append to the existing output file, evolving its schema to fit the new input",
+      false,
+    )
+    .option(
+      "--partition-by <fields>",
+      "Comma-separated fields to write a Hive-style partitioned directory by (e.g. dt,region)",
+    )
+    .option(
+      "--drop-partition-columns",
+      "Leave partition columns out of the Parquet files",
+      false,
+    )
+    .option(
+      "--max-open-writers <number>",
+      "Maximum number of partition files open at once",
+      "32",
+    )
+    .option(
+      "--max-rows-per-file <number>",
+      "Start a new numbered output file after this many rows",
+    )
+    .option(
+      "--max-file-size <size>",
+      "Start a new numbered output file once it reaches this size (e.g. 512MB, 1GB)",
+    )
+    .option(
+      "--file-name-template <template>",
+      "Name of numbered output files, with {name} and {index} placeholders",
+      DEFAULT_FILE_NAME_TEMPLATE,
+    )
+    .option(
+      "--print-schema [format]",
+      "Print the inferred schema with field stats instead of writing Parquet: json, duckdb, hive",
     );
 
   program.parse();
@@ -379,6 +1361,20 @@ async function main(): Promise<void> {
     throw new Error("Invalid batch size");
   }
 
+  if (options.rowGroupSize !== undefined) {
+    options.rowGroupSize = parseInt(String(options.rowGroupSize), 10);
+    if (Number.isNaN(options.rowGroupSize) || options.rowGroupSize < 1) {
+      console.error(chalk.red("❌ Row group size must be a positive number"));
+      throw new Error("Invalid row group size");
+    }
+  }
+
+  options.pageSize = parseInt(String(options.pageSize), 10);
+  if (Number.isNaN(options.pageSize) || options.pageSize < 1) {
+    console.error(chalk.red("❌ Page size must be a positive number"));
+    throw new Error("Invalid page size");
+  }
+
   // Normalize and validate compression option
   const compressionMap: Record<string, CompressionType> = {
     uncompressed: "UNCOMPRESSED",
@@ -398,20 +1394,357 @@ async function main(): Promise<void> {
   }
   options.compression = compressionMap[compression];
 
-  // Validate output directory exists
-  const outputDir = path.dirname(options.output);
+  if (options.jsonSchema && options.schema) {
+    console.error(
+      chalk.red("❌ --json-schema cannot be combined with --schema"),
+    );
+    throw new Error("Invalid schema options");
+  }
+
+  // Validate validation mode; a bare --validate means strict
+  if (options.validate === true) options.validate = "strict";
+  const validationModes: ValidationMode[] = ["strict", "lenient", "coerce"];
+  if (
+    options.validate !== false &&
+    !validationModes.includes(options.validate)
+  ) {
+    console.error(
+      chalk.red(
+        `❌ Invalid validation mode: ${options.validate}. Valid options: strict, lenient, coerce`,
+      ),
+    );
+    throw new Error("Invalid validation mode");
+  }
+
+  options.concurrency = parseInt(String(options.concurrency), 10);
+  if (Number.isNaN(options.concurrency) || options.concurrency < 1) {
+    console.error(chalk.red("❌ Concurrency must be a positive number"));
+    throw new Error("Invalid concurrency");
+  }
+
+  // Validate input format option
+  const inputFormats: InputFormat[] = ["auto", "json", "ndjson"];
+  if (!inputFormats.includes(options.inputFormat as InputFormat)) {
+    console.error(
+      chalk.red(
+        `❌ Invalid input format: ${options.inputFormat}. Valid options: auto, json, ndjson`,
+      ),
+    );
+    throw new Error("Invalid input format");
+  }
+
+  // Parse and validate the record selection
+  if (options.envelopeFields !== undefined) {
+    options.envelopeFields = String(options.envelopeFields)
+      .split(",")
+      .map((field) => field.trim())
+      .filter((field) => field.length > 0);
+  }
+  try {
+    parseRecordSelection(options.recordsPath, options.envelopeFields);
+  } catch (error) {
+    console.error(
+      chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`),
+    );
+    throw new Error("Invalid record selection");
+  }
+
+  // Parse and validate the column projection
+  const splitList = (list: unknown): string[] =>
+    String(list)
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  try {
+    if (options.include !== undefined) {
+      options.include = splitList(options.include);
+    }
+    if (options.exclude !== undefined) {
+      options.exclude = splitList(options.exclude);
+    }
+    if (options.rename !== undefined) {
+      options.rename = parseRenames(splitList(options.rename));
+    }
+    new RecordProjection(options);
+  } catch (error) {
+    console.error(
+      chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`),
+    );
+    throw new Error("Invalid column projection");
+  }
+
+  if (options.where !== undefined) {
+    try {
+      compileExpression(options.where, "--where");
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      throw new Error("Invalid filter");
+    }
+  }
+
+  // A bare --explode-index names the position column after the field
+  if (options.explodeIndex !== undefined) {
+    if (!options.explode) {
+      console.error(chalk.red("❌ --explode-index requires --explode"));
+      throw new Error("Invalid explode options");
+    }
+    if ((options.explodeIndex as unknown) === true) {
+      options.explodeIndex = `${options.explode}_index`;
+    }
+  }
+
+  // Parse flattening options; a bare --flatten flattens every level
+  if (options.flatten !== undefined) {
+    const flatten = options.flatten as unknown;
+    options.flatten =
+      flatten === true
+        ? Number.POSITIVE_INFINITY
+        : parseInt(String(flatten), 10);
+    if (Number.isNaN(options.flatten) || options.flatten < 1) {
+      console.error(chalk.red("❌ Flatten depth must be a positive number"));
+      throw new Error("Invalid flatten depth");
+    }
+  }
+  if (!options.flattenSeparator) {
+    console.error(chalk.red("❌ Flatten separator must not be empty"));
+    throw new Error("Invalid flatten separator");
+  }
+  const flattenArrayModes: FlattenArrayMode[] = ["json", "index"];
+  if (!flattenArrayModes.includes(options.flattenArrays as FlattenArrayMode)) {
+    console.error(
+      chalk.red(
+        `❌ Invalid flatten arrays mode: ${options.flattenArrays}. Valid options: json, index`,
+      ),
+    );
+    throw new Error("Invalid flatten arrays mode");
+  }
+
+  // Parse and validate deduplication
+  if (options.dedupeKey !== undefined) {
+    options.dedupeKey = splitList(options.dedupeKey);
+  }
   try {
-    await fs.access(outputDir);
-  } catch {
+    options.dedupePolicy = parseDedupePolicy(String(options.dedupePolicy));
+  } catch (error) {
     console.error(
-      chalk.red(`❌ Output directory does not exist: ${outputDir}`),
+      chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`),
     );
-    throw new Error("Output directory does not exist");
+    throw new Error("Invalid dedupe policy");
+  }
+
+  if (options.sortBy !== undefined) {
+    try {
+      options.sortBy = parseSortKeys(splitList(options.sortBy));
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      throw new Error("Invalid sort keys");
+    }
+  }
+
+  // Parse and validate the lineage columns
+  if (options.sourceColumnNames !== undefined) {
+    try {
+      options.sourceColumnNames = parseSourceColumnNames(
+        splitList(options.sourceColumnNames),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      throw new Error("Invalid source column names");
+    }
+  }
+  const sourcePathModes: SourcePathMode[] = ["relative", "absolute"];
+  if (!sourcePathModes.includes(options.sourcePaths as SourcePathMode)) {
+    console.error(
+      chalk.red(
+        `❌ Invalid source paths mode: ${options.sourcePaths}. Valid options: relative, absolute`,
+      ),
+    );
+    throw new Error("Invalid source paths mode");
+  }
+
+  // Validate type conflict policy
+  const typeConflictPolicies: TypeConflictPolicy[] = ["string", "error"];
+  if (
+    !typeConflictPolicies.includes(options.typeConflict as TypeConflictPolicy)
+  ) {
+    console.error(
+      chalk.red(
+        `❌ Invalid type conflict policy: ${options.typeConflict}. Valid options: string, error`,
+      ),
+    );
+    throw new Error("Invalid type conflict policy");
+  }
+
+  // Validate nested mode
+  const nestedModes: NestedMode[] = ["json", "native"];
+  if (!nestedModes.includes(options.nested as NestedMode)) {
+    console.error(
+      chalk.red(
+        `❌ Invalid nested mode: ${options.nested}. Valid options: json, native`,
+      ),
+    );
+    throw new Error("Invalid nested mode");
+  }
+
+  // Parse and validate temporal formats
+  const temporalFormats = String(options.temporalFormats)
+    .split(",")
+    .map((format) => format.trim());
+  const invalidFormats = temporalFormats.filter(
+    (format) => !TEMPORAL_FORMATS.includes(format as TemporalFormat),
+  );
+  if (invalidFormats.length > 0) {
+    console.error(
+      chalk.red(
+        `❌ Invalid temporal format: ${invalidFormats.join(", ")}. Valid options: ${TEMPORAL_FORMATS.join(", ")}`,
+      ),
+    );
+    throw new Error("Invalid temporal format");
+  }
+  options.temporalFormats = temporalFormats as TemporalFormat[];
+
+  // Validate schema export format; a bare --print-schema means JSON
+  if ((options.printSchema as unknown) === true) {
+    options.printSchema = "json";
+  }
+  const exportFormats: SchemaExportFormat[] = ["json", "duckdb", "hive"];
+  if (
+    options.printSchema !== undefined &&
+    !exportFormats.includes(options.printSchema)
+  ) {
+    console.error(
+      chalk.red(
+        `❌ Invalid schema export format: ${options.printSchema}. Valid options: json, duckdb, hive`,
+      ),
+    );
+    throw new Error("Invalid schema export format");
+  }
+
+  // Parse partitioning options; the output path becomes a directory
+  if (options.partitionBy !== undefined) {
+    options.partitionBy = String(options.partitionBy)
+      .split(",")
+      .map((field) => field.trim())
+      .filter((field) => field.length > 0);
+    if (options.partitionBy.length === 0) {
+      console.error(chalk.red("❌ --partition-by needs at least one field"));
+      throw new Error("Invalid partition fields");
+    }
+    if (options.append) {
+      console.error(
+        chalk.red("❌ --append cannot be combined with --partition-by"),
+      );
+      throw new Error("Invalid partition options");
+    }
+  }
+
+  options.maxOpenWriters = parseInt(String(options.maxOpenWriters), 10);
+  if (Number.isNaN(options.maxOpenWriters) || options.maxOpenWriters < 1) {
+    console.error(chalk.red("❌ Max open writers must be a positive number"));
+    throw new Error("Invalid max open writers");
+  }
+
+  // Parse output rolling options
+  if (options.maxRowsPerFile !== undefined) {
+    options.maxRowsPerFile = parseInt(String(options.maxRowsPerFile), 10);
+    if (Number.isNaN(options.maxRowsPerFile) || options.maxRowsPerFile < 1) {
+      console.error(
+        chalk.red("❌ Max rows per file must be a positive number"),
+      );
+      throw new Error("Invalid max rows per file");
+    }
+  }
+  if (options.maxFileSize !== undefined) {
+    const maxFileSize = parseSize(String(options.maxFileSize));
+    if (maxFileSize === null) {
+      console.error(
+        chalk.red(
+          `❌ Invalid max file size: ${options.maxFileSize}. Use bytes or a size such as 512MB or 1GB`,
+        ),
+      );
+      throw new Error("Invalid max file size");
+    }
+    options.maxFileSize = maxFileSize;
+  }
+  if (
+    options.maxRowsPerFile !== undefined ||
+    options.maxFileSize !== undefined
+  ) {
+    if (!options.fileNameTemplate?.includes("{index}")) {
+      console.error(
+        chalk.red("❌ File name template must contain the {index} placeholder"),
+      );
+      throw new Error("Invalid file name template");
+    }
+    if (options.partitionBy || options.append) {
+      console.error(
+        chalk.red(
+          "❌ --max-rows-per-file and --max-file-size cannot be combined with --partition-by or --append",
+        ),
+      );
+      throw new Error("Invalid output options");
+    }
+  }
+
+  if (options.maxErrors !== undefined) {
+    options.maxErrors = parseInt(String(options.maxErrors), 10);
+    if (Number.isNaN(options.maxErrors) || options.maxErrors < 0) {
+      console.error(
+        chalk.red("❌ Max errors must be zero or a positive number"),
+      );
+      throw new Error("Invalid max errors");
+    }
+  }
+
+  // The output path is only optional when printing the schema to stdout
+  if (!options.output && !options.printSchema) {
+    console.error(chalk.red("❌ Output path is required (-o, --output)"));
+    throw new Error("Output path is required");
+  }
+
+  // Validate output directory exists
+  if (options.output) {
+    const outputDir = path.dirname(options.output);
+    try {
+      await fs.access(outputDir);
+    } catch {
+      console.error(
+        chalk.red(`❌ Output directory does not exist: ${outputDir}`),
+      );
+      throw new Error("Output directory does not exist");
+    }
+  }
+  if (options.rejectFile) {
+    const rejectDir = path.dirname(options.rejectFile);
+    try {
+      await fs.access(rejectDir);
+    } catch {
+      console.error(
+        chalk.red(`❌ Reject file directory does not exist: ${rejectDir}`),
+      );
+      throw new Error("Reject file directory does not exist");
+    }
   }
 
   // Create and run merger
   const merger = new JsonParquetMerger(options);
-  await merger.run();
+  if (options.printSchema) {
+    await merger.exportSchema();
+  } else {
+    await merger.run();
+  }
 }
 
 // Only execute main when this module is run directly, not when imported
@@ -0,0 +1,236 @@
+import { vol } from "memfs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  deriveFields,
+  JsonSchemaValidator,
+  loadJsonSchema,
+} from "./json-schema.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+const schema = {
+  type: "object",
+  required: ["id", "createdAt", "status", "nickname"],
+  additionalProperties: false,
+  properties: {
+    id: { type: "integer", minimum: 0, maximum: 1000 },
+    views: { type: "integer" },
+    createdAt: { type: "string", format: "date-time" },
+    birthday: { type: ["string", "null"], format: "date" },
+    status: { enum: ["active", "disabled"] },
+    nickname: { anyOf: [{ type: "string" }, { type: "null" }] },
+    score: { type: ["integer", "number"] },
+    payload: {},
+    address: { $ref: "#/$defs/address" },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  $defs: {
+    address: {
+      type: "object",
+      required: ["city"],
+      properties: { city: { type: "string" } },
+    },
+  },
+};
+
+describe("deriveFields", () => {
+  it("should map JSON Schema types, formats and required fields to columns", () => {
+    const fields = deriveFields(
+      schema,
+      { compression: "SNAPPY", nested: "native" },
+      "schema.json",
+    );
+
+    expect(fields).toEqual({
+      id: { type: "INT32", compression: "SNAPPY", optional: false },
+      views: { type: "INT64", compression: "SNAPPY", optional: true },
+      createdAt: {
+        type: "TIMESTAMP_MILLIS",
+        compression: "SNAPPY",
+        optional: false,
+      },
+      birthday: { type: "DATE", compression: "SNAPPY", optional: true },
+      status: { type: "UTF8", compression: "SNAPPY", optional: false },
+      // Required but nullable
+      nickname: { type: "UTF8", compression: "SNAPPY", optional: true },
+      score: { type: "DOUBLE", compression: "SNAPPY", optional: true },
+      payload: { type: "UTF8", compression: "SNAPPY", optional: true },
+      address: {
+        optional: true,
+        fields: {
+          city: { type: "UTF8", compression: "SNAPPY", optional: false },
+        },
+      },
+      tags: { type: "UTF8", compression: "SNAPPY", repeated: true },
+    });
+  });
+
+  it("should store objects and arrays as JSON strings outside native mode", () => {
+    const fields = deriveFields(
+      schema,
+      { compression: "UNCOMPRESSED", nested: "json" },
+      "schema.json",
+    );
+
+    expect(fields.address).toEqual({
+      type: "UTF8",
+      compression: "UNCOMPRESSED",
+      optional: true,
+    });
+    expect(fields.tags).toEqual({
+      type: "UTF8",
+      compression: "UNCOMPRESSED",
+      optional: true,
+    });
+  });
+
+  it("should keep recursive definitions as JSON strings", () => {
+    const fields = deriveFields(
+      {
+        type: "object",
+        properties: { tree: { $ref: "#/$defs/node" } },
+        $defs: {
+          node: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              child: { $ref: "#/$defs/node" },
+            },
+          },
+        },
+      },
+      { compression: "UNCOMPRESSED", nested: "native" },
+      "schema.json",
+    );
+
+    expect(fields.tree.fields?.child).toEqual({
+      type: "UTF8",
+      compression: "UNCOMPRESSED",
+      optional: true,
+    });
+  });
+
+  it("should reject schemas that do not describe records", () => {
+    const options = {
+      compression: "UNCOMPRESSED" as const,
+      nested: "json" as const,
+    };
+
+    expect(() =>
+      deriveFields({ type: "array" }, options, "schema.json"),
+    ).toThrow(
+      "Invalid JSON Schema schema.json: the root must describe an object with properties",
+    );
+    expect(() =>
+      deriveFields(
+        { type: "object", properties: { a: { $ref: "other.json#/a" } } },
+        options,
+        "schema.json",
+      ),
+    ).toThrow('only local $refs are supported, got "other.json#/a"');
+  });
+});
+
+describe("JsonSchemaValidator", () => {
+  it("should report every violation as a validation issue", () => {
+    const validator = new JsonSchemaValidator(
+      schema,
+      { coerceTypes: false },
+      "schema.json",
+    );
+
+    expect(
+      validator.validate({
+        id: 1,
+        createdAt: "2024-01-15T10:00:00Z",
+        status: "active",
+        nickname: null,
+        tags: ["a"],
+      }),
+    ).toEqual({ valid: true, issues: [] });
+
+    const result = validator.validate({
+      id: "2",
+      createdAt: "yesterday",
+      status: "gone",
+      address: {},
+      tags: [1],
+      extra: true,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(
+      expect.arrayContaining([
+        {
+          field: "nickname",
+          rule: "required",
+          message: 'Missing required field "nickname"',
+        },
+        { field: "extra", rule: "extra", message: 'Unexpected field "extra"' },
+        { field: "id", rule: "type", message: 'Field "id" must be integer' },
+        {
+          field: "createdAt",
+          rule: "constraint",
+          message: 'Field "createdAt" must match format "date-time"',
+        },
+        {
+          field: "status",
+          rule: "constraint",
+          message:
+            'Field "status" must be equal to one of the allowed values: "active", "disabled"',
+        },
+        {
+          field: "address.city",
+          rule: "required",
+          message: 'Missing required field "address.city"',
+        },
+        {
+          field: "tags[]",
+          rule: "type",
+          message: 'Field "tags[]" must be string',
+        },
+      ]),
+    );
+  });
+
+  it("should coerce scalar values in coerce mode", () => {
+    const validator = new JsonSchemaValidator(
+      schema,
+      { coerceTypes: true },
+      "schema.json",
+    );
+    const record = {
+      id: "2",
+      createdAt: "2024-01-15T10:00:00Z",
+      status: "active",
+      nickname: "jo",
+    };
+
+    expect(validator.validate(record).valid).toBe(true);
+    expect(record.id).toBe(2);
+  });
+});
+
+describe("loadJsonSchema", () => {
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should load JSON and YAML documents", async () => {
+    vol.fromJSON({
+      "/test/schema.json": JSON.stringify({ type: "object" }),
+      "/test/schema.yaml": "type: object\n",
+      "/test/invalid.json": "[]",
+    });
+
+    expect(await loadJsonSchema("/test/schema.json")).toEqual({
+      type: "object",
+    });
+    expect(await loadJsonSchema("/test/schema.yaml")).toEqual({
+      type: "object",
+    });
+    await expect(loadJsonSchema("/test/invalid.json")).rejects.toThrow(
+      "Invalid JSON Schema /test/invalid.json: expected an object",
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import type { FieldDefinition, ParquetType } from "@dsnp/parquetjs";
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import Ajv2019 from "ajv/dist/2019.js";
+import Ajv2020 from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import type { CompressionType, JsonRecord, NestedMode } from "./index.js";
+import { isObject } from "./schema-file.js";
+import type {
+  ValidationIssue,
+  ValidationResult,
+  Validator,
+} from "./validation.js";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaOptions {
+  compression: CompressionType;
+  nested: NestedMode;
+}
+
+/**
+ * A JSON Schema node reduced to the value types it allows.
+ */
+interface SchemaShape {
+  /** JSON Schema types other than `null` */
+  types: Set<string>;
+  nullable: boolean;
+  /** The node with `$ref`, `allOf`, `anyOf` and `oneOf` resolved */
+  node: JsonSchema;
+  /** Local `$ref`s followed to reach the node, to detect recursion */
+  refs: string[];
+}
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+/**
+ * Loads a JSON Schema document, as YAML when the file ends in `.yaml` /
+ * `.yml` and as JSON otherwise.
+ */
+export async function loadJsonSchema(file: string): Promise<JsonSchema> {
+  const content = await fs.readFile(file, "utf-8");
+  const extension = path.extname(file).toLowerCase();
+
+  let document: unknown;
+  try {
+    document =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse JSON Schema ${file}: ${error}`);
+  }
+  if (!isObject(document)) {
+    throw new Error(`Invalid JSON Schema ${file}: expected an object`);
+  }
+  return document;
+}
+
+/**
+ * Derives Parquet field definitions from a JSON Schema describing one record:
+ *
+ * - `string` maps to UTF8, or to DATE and TIMESTAMP_MILLIS for the `date` and
+ *   `date-time` formats
+ * - `integer` maps to INT32 when `minimum` and `maximum` fit, otherwise INT64
+ * - `number` maps to DOUBLE and `boolean` to BOOLEAN
+ * - `enum` and `const` without a `type` take the type of their values
+ * - objects and arrays become native groups and lists in `native` mode, and
+ *   JSON strings otherwise
+ *
+ * Properties listed in `required` that do not allow `null` are required
+ * columns. Local `$ref`s, `allOf`, and `anyOf` / `oneOf` alternatives are
+ * resolved; a mix of types that has no common column type becomes UTF8.
+ */
+export function deriveFields(
+  schema: JsonSchema,
+  options: JsonSchemaOptions,
+  source: string,
+): Record<string, FieldDefinition> {
+  const shape = resolveShape(schema, schema, source, []);
+  if (!shape.types.has("object") || !isObject(shape.node.properties)) {
+    throw new Error(
+      `Invalid JSON Schema ${source}: the root must describe an object with properties`,
+    );
+  }
+
+  const fields = deriveObjectFields(
+    shape.node,
+    schema,
+    options,
+    source,
+    shape.refs,
+  );
+  if (Object.keys(fields).length === 0) {
+    throw new Error(`Invalid JSON Schema ${source}: no properties declared`);
+  }
+  return fields;
+}
+
+function deriveObjectFields(
+  node: JsonSchema,
+  root: JsonSchema,
+  options: JsonSchemaOptions,
+  source: string,
+  refs: string[],
+): Record<string, FieldDefinition> {
+  const properties = isObject(node.properties) ? node.properties : {};
+  const required = Array.isArray(node.required) ? node.required : [];
+  const fields: Record<string, FieldDefinition> = {};
+
+  for (const [name, property] of Object.entries(properties)) {
+    const shape = resolveShape(property, root, source, refs);
+    const definition = deriveField(shape, root, options, source);
+    fields[name] = definition.repeated
+      ? definition
+      : {
+          ...definition,
+          optional: shape.nullable || !required.includes(name),
+        };
+  }
+  return fields;
+}
+
+function deriveField(
+  shape: SchemaShape,
+  root: JsonSchema,
+  options: JsonSchemaOptions,
+  source: string,
+): FieldDefinition {
+  const { node, types, refs } = shape;
+  const type = types.size === 1 ? [...types][0] : null;
+
+  if (options.nested === "native" && type === "object") {
+    const fields = deriveObjectFields(node, root, options, source, refs);
+    // Objects without declared properties have no native column layout
+    if (Object.keys(fields).length > 0) return { fields };
+  }
+  if (
+    options.nested === "native" &&
+    type === "array" &&
+    node.items !== undefined
+  ) {
+    const items = resolveShape(node.items, root, source, refs);
+    // Lists of lists have no direct Parquet mapping and stay JSON strings
+    if (!items.types.has("array")) {
+      const element = deriveField(items, root, options, source);
+      return { ...element, repeated: true };
+    }
+  }
+
+  return {
+    type: columnType(shape),
+    compression: options.compression,
+  };
+}
+
+function columnType({ types, node }: SchemaShape): ParquetType {
+  if (types.size === 1 && types.has("string")) {
+    if (node.format === "date-time") return "TIMESTAMP_MILLIS";
+    if (node.format === "date") return "DATE";
+    return "UTF8";
+  }
+  if (types.size === 1 && types.has("integer")) {
+    const fitsInt32 =
+      typeof node.minimum === "number" &&
+      typeof node.maximum === "number" &&
+      node.minimum >= INT32_MIN &&
+      node.maximum <= INT32_MAX;
+    return fitsInt32 ? "INT32" : "INT64";
+  }
+  if ([...types].every((type) => type === "integer" || type === "number")) {
+    return types.size > 0 ? "DOUBLE" : "UTF8";
+  }
+  if (types.size === 1 && types.has("boolean")) return "BOOLEAN";
+  // Objects, arrays, unconstrained values and mixed types are stored as text
+  return "UTF8";
+}
+
+/**
+ * Works out the value types a schema node allows, following local `$ref`s
+ * and combining `allOf`, `anyOf` and `oneOf` members.
+ */
+function resolveShape(
+  value: unknown,
+  root: JsonSchema,
+  source: string,
+  refs: string[],
+): SchemaShape {
+  // `true` and `{}` accept any value
+  if (!isObject(value)) {
+    return { types: new Set(), nullable: true, node: {}, refs };
+  }
+
+  if (typeof value.$ref === "string") {
+    const ref = value.$ref;
+    // Recursive definitions cannot be flattened into columns
+    if (refs.includes(ref)) {
+      return { types: new Set(["object"]), nullable: true, node: {}, refs };
+    }
+    const target = resolveRef(root, ref, source);
+    return resolveShape(target, root, source, [...refs, ref]);
+  }
+
+  if (Array.isArray(value.allOf)) {
+    const merged: JsonSchema = { ...value, allOf: undefined };
+    for (const member of value.allOf) {
+      const shape = resolveShape(member, root, source, refs);
+      merged.properties = {
+        ...(isObject(merged.properties) ? merged.properties : {}),
+        ...(isObject(shape.node.properties) ? shape.node.properties : {}),
+      };
+      merged.required = [
+        ...(Array.isArray(merged.required) ? merged.required : []),
+        ...(Array.isArray(shape.node.required) ? shape.node.required : []),
+      ];
+      merged.type ??= shape.node.type;
+      merged.format ??= shape.node.format;
+      merged.items ??= shape.node.items;
+    }
+    return resolveShape(merged, root, source, refs);
+  }
+
+  const alternatives = value.anyOf ?? value.oneOf;
+  if (Array.isArray(alternatives)) {
+    const shapes = alternatives.map((member) =>
+      resolveShape(member, root, source, refs),
+    );
+    const nonNull = shapes.filter((shape) => shape.types.size > 0);
+    const nullable = shapes.some((shape) => shape.nullable);
+    // A single alternative besides null keeps its full definition
+    if (nonNull.length === 1) {
+      return { ...nonNull[0], nullable: nullable || nonNull[0].nullable };
+    }
+    const types = new Set(nonNull.flatMap((shape) => [...shape.types]));
+    return { types, nullable, node: {}, refs };
+  }
+
+  const types = new Set<string>();
+  let nullable = false;
+  const declared = Array.isArray(value.type)
+    ? value.type
+    : value.type !== undefined
+      ? [value.type]
+      : valueTypes(value);
+  for (const type of declared) {
+    if (type === "null") {
+      nullable = true;
+    } else {
+      types.add(String(type));
+    }
+  }
+  if (declared.length === 0) nullable = true;
+  return { types, nullable, node: value, refs };
+}
+
+function resolveRef(root: JsonSchema, ref: string, source: string): unknown {
+  if (!ref.startsWith("#")) {
+    throw new Error(
+      `Invalid JSON Schema ${source}: only local $refs are supported, got "${ref}"`,
+    );
+  }
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    if (!isObject(target) || !(key in target)) {
+      throw new Error(
+        `Invalid JSON Schema ${source}: $ref "${ref}" does not resolve`,
+      );
+    }
+    target = target[key];
+  }
+  return target;
+}
+
+/**
+ * Types implied by a node without `type`: those of its `enum` or `const`
+ * values, or `object` / `array` for nodes describing properties or items.
+ */
+function valueTypes(node: JsonSchema): string[] {
+  const values = Array.isArray(node.enum)
+    ? node.enum
+    : "const" in node
+      ? [node.const]
+      : null;
+  if (values) {
+    return [...new Set(values.map(jsonSchemaType))];
+  }
+  if (isObject(node.properties)) return ["object"];
+  if (node.items !== undefined) return ["array"];
+  return [];
+}
+
+function jsonSchemaType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+/**
+ * Validates records against a JSON Schema, reporting every violation as a
+ * validation issue. With `coerceTypes`, scalar values are converted to the
+ * declared types (e.g. `"42"` to `42`) in place before they are checked.
+ */
+export class JsonSchemaValidator implements Validator {
+  private readonly check: ValidateFunction;
+
+  constructor(
+    schema: JsonSchema,
+    options: { coerceTypes: boolean },
+    source: string,
+  ) {
+    const ajvOptions = {
+      allErrors: true,
+      // Producer schemas often carry keywords and formats of other tools
+      strict: false,
+      coerceTypes: options.coerceTypes,
+    };
+    const draft = String(schema.$schema ?? "");
+    const ajv = draft.includes("2020-12")
+      ? new Ajv2020(ajvOptions)
+      : draft.includes("2019-09")
+        ? new Ajv2019(ajvOptions)
+        : new Ajv(ajvOptions);
+    addFormats(ajv);
+
+    try {
+      this.check = ajv.compile(schema);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON Schema ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  validate(record: JsonRecord): ValidationResult {
+    if (this.check(record)) return { valid: true, issues: [] };
+    return {
+      valid: false,
+      issues: (this.check.errors ?? []).map(toIssue),
+    };
+  }
+}
+
+function toIssue(error: ErrorObject): ValidationIssue {
+  const segments = error.instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const params = error.params as Record<string, unknown>;
+
+  if (error.keyword === "required") {
+    const field = fieldPath([...segments, String(params.missingProperty)]);
+    return {
+      field,
+      rule: "required",
+      message: `Missing required field "${field}"`,
+    };
+  }
+  if (error.keyword === "additionalProperties") {
+    const field = fieldPath([...segments, String(params.additionalProperty)]);
+    return { field, rule: "extra", message: `Unexpected field "${field}"` };
+  }
+
+  const field = fieldPath(segments);
+  const allowed = Array.isArray(params.allowedValues)
+    ? `: ${params.allowedValues.map((value) => JSON.stringify(value)).join(", ")}`
+    : "";
+  return {
+    field,
+    rule: error.keyword === "type" ? "type" : "constraint",
+    message: `${field ? `Field "${field}"` : "Record"} ${error.message}${allowed}`,
+  };
+}
+
+/**
+ * Joins JSON pointer segments into a field path such as `items[].qty`.
+ */
+function fieldPath(segments: string[]): string {
+  return segments.reduce(
+    (joined, segment) =>
+      /^\d+$/.test(segment)
+        ? `${joined}[]`
+        : joined
+          ? `${joined}.${segment}`
+          : segment,
+    "",
+  );
+}
@@ -0,0 +1,159 @@
+import { ParquetSchema, ParquetWriter } from "@dsnp/parquetjs";
+import { vol } from "memfs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { PartitionedWriter, partitionPath } from "./partition.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+vi.mock("@dsnp/parquetjs", () => ({
+  ParquetWriter: {
+    openFile: vi.fn(),
+  },
+  ParquetSchema: vi.fn().mockImplementation(function (
+    this: { fields: unknown },
+    fields: unknown,
+  ) {
+    this.fields = fields;
+  }),
+}));
+
+const fields = {
+  dt: { type: "DATE" as const, optional: true },
+  region: { type: "UTF8" as const, optional: true },
+  value: { type: "INT64" as const, optional: true },
+};
+
+/**
+ * Mocks `ParquetWriter.openFile` and records the rows written to each file.
+ */
+function mockWriters(): { rows: Record<string, unknown[]>; closed: string[] } {
+  const rows: Record<string, unknown[]> = {};
+  const closed: string[] = [];
+  vi.mocked(ParquetWriter.openFile).mockImplementation(
+    async (_schema, file) => {
+      const name = String(file);
+      rows[name] = [];
+      return {
+        appendRow: vi.fn(async (row: unknown) => {
+          rows[name].push(row);
+        }),
+        close: vi.fn(async () => {
+          closed.push(name);
+        }),
+      } as unknown as ParquetWriter;
+    },
+  );
+  return { rows, closed };
+}
+
+describe("partitionPath", () => {
+  it("should build Hive-style directories from record values", () => {
+    expect(
+      partitionPath(
+        { dt: new Date("2024-01-15T00:00:00Z"), region: "eu" },
+        ["dt", "region"],
+        fields,
+      ),
+    ).toBe("dt=2024-01-15/region=eu");
+  });
+
+  it("should escape path characters and map nulls to the default partition", () => {
+    expect(
+      partitionPath({ dt: null, region: "a/b=c" }, ["dt", "region"], fields),
+    ).toBe("dt=__HIVE_DEFAULT_PARTITION__/region=a%2Fb%3Dc");
+  });
+});
+
+describe("PartitionedWriter", () => {
+  beforeEach(() => {
+    vol.reset();
+    vi.clearAllMocks();
+  });
+
+  it("should route records to one file per partition", async () => {
+    const { rows } = mockWriters();
+    const writer = new PartitionedWriter(fields, "/out", {
+      fields: ["region"],
+      dropColumns: false,
+      maxOpenWriters: 10,
+    });
+
+    await writer.appendRow({ region: "eu", value: 1 });
+    await writer.appendRow({ region: "us", value: 2 });
+    await writer.appendRow({ region: "eu", value: 3 });
+    await writer.close();
+
+    expect(writer.partitionCount).toBe(2);
+    expect(rows).toEqual({
+      "/out/region=eu/part-0000.parquet": [
+        { region: "eu", value: 1 },
+        { region: "eu", value: 3 },
+      ],
+      "/out/region=us/part-0000.parquet": [{ region: "us", value: 2 }],
+    });
+    expect(vol.existsSync("/out/region=eu")).toBe(true);
+  });
+
+  it("should drop partition columns from the file schema and rows", async () => {
+    const { rows } = mockWriters();
+    const writer = new PartitionedWriter(fields, "/out", {
+      fields: ["dt", "region"],
+      dropColumns: true,
+      maxOpenWriters: 10,
+    });
+
+    await writer.appendRow({
+      dt: new Date("2024-01-15T00:00:00Z"),
+      region: "eu",
+      value: 1,
+    });
+    await writer.close();
+
+    expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+      value: { type: "INT64", optional: true },
+    });
+    expect(rows).toEqual({
+      "/out/dt=2024-01-15/region=eu/part-0000.parquet": [{ value: 1 }],
+    });
+  });
+
+  it("should close the least recently used writer and start a new part", async () => {
+    const { rows, closed } = mockWriters();
+    const writer = new PartitionedWriter(fields, "/out", {
+      fields: ["region"],
+      dropColumns: true,
+      maxOpenWriters: 2,
+    });
+
+    await writer.appendRow({ region: "eu", value: 1 });
+    await writer.appendRow({ region: "us", value: 2 });
+    await writer.appendRow({ region: "eu", value: 3 });
+    await writer.appendRow({ region: "ap", value: 4 });
+    expect(closed).toEqual(["/out/region=us/part-0000.parquet"]);
+
+    await writer.appendRow({ region: "us", value: 5 });
+    await writer.close();
+
+    expect(rows["/out/region=us/part-0001.parquet"]).toEqual([{ value: 5 }]);
+    expect(rows["/out/region=eu/part-0000.parquet"]).toEqual([
+      { value: 1 },
+      { value: 3 },
+    ]);
+  });
+
+  it("should reject partition fields that are missing or nested", () => {
+    const options = { dropColumns: false, maxOpenWriters: 1 };
+    expect(
+      () =>
+        new PartitionedWriter(fields, "/out", { ...options, fields: ["x"] }),
+    ).toThrow('Partition field "x" not found in schema');
+    expect(
+      () =>
+        new PartitionedWriter(
+          { tags: { type: "UTF8", repeated: true } },
+          "/out",
+          { ...options, fields: ["tags"] },
+        ),
+    ).toThrow('Partition field "tags" must be a single value');
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  type FieldDefinition,
+  ParquetSchema,
+  ParquetWriter,
+  type WriterOptions,
+} from "@dsnp/parquetjs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { JsonRecord } from "./index.js";
+
+/**
+ * Destination for transformed records: a single `ParquetWriter` or a
+ * `PartitionedWriter` fanning records out to one writer per partition.
+ */
+export interface RecordWriter {
+  appendRow(record: JsonRecord): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface PartitionOptions {
+  /** Top-level fields whose values select the partition directory */
+  fields: string[];
+  /** Leave the partition columns out of the Parquet files */
+  dropColumns: boolean;
+  /** Writers kept open at once; the least recently used is closed first */
+  maxOpenWriters: number;
+  /** Row group and page settings for every partition file */
+  writerOptions?: WriterOptions;
+}
+
+/**
+ * Directory name Hive uses for null partition values.
+ */
+export const DEFAULT_PARTITION = "__HIVE_DEFAULT_PARTITION__";
+
+/**
+ * Writes records into a Hive-style partitioned directory, e.g.
+ * `dt=2024-01-15/region=eu/part-0000.parquet`. Each partition gets its own
+ * `ParquetWriter`; when the open writer limit is reached the least recently
+ * used writer is closed, and a later record for that partition starts the
+ * next part file.
+ */
+export class PartitionedWriter implements RecordWriter {
+  private readonly schema: ParquetSchema;
+  private writers = new Map<string, ParquetWriter>();
+  private partCounts = new Map<string, number>();
+
+  constructor(
+    private readonly fields: Record<string, FieldDefinition>,
+    private readonly outputDir: string,
+    private readonly options: PartitionOptions,
+  ) {
+    for (const name of options.fields) {
+      const field = fields[name];
+      if (!field) {
+        throw new Error(`Partition field "${name}" not found in schema`);
+      }
+      if (field.fields || field.repeated) {
+        throw new Error(
+          `Partition field "${name}" must be a single value, not a group or list`,
+        );
+      }
+    }
+
+    const fileFields = options.dropColumns
+      ? withoutFields(fields, options.fields)
+      : fields;
+    if (Object.keys(fileFields).length === 0) {
+      throw new Error("Cannot drop every column as a partition column");
+    }
+    this.schema = new ParquetSchema(fileFields);
+  }
+
+  /**
+   * Number of distinct partitions written so far.
+   */
+  get partitionCount(): number {
+    return this.partCounts.size;
+  }
+
+  async appendRow(record: JsonRecord): Promise<void> {
+    const partition = partitionPath(record, this.options.fields, this.fields);
+    const writer = await this.writerFor(partition);
+    await writer.appendRow(
+      this.options.dropColumns
+        ? withoutFields(record, this.options.fields)
+        : record,
+    );
+  }
+
+  async close(): Promise<void> {
+    for (const writer of this.writers.values()) {
+      await writer.close();
+    }
+    this.writers.clear();
+  }
+
+  private async writerFor(partition: string): Promise<ParquetWriter> {
+    const open = this.writers.get(partition);
+    if (open) {
+      // Re-insert to mark the writer as most recently used
+      this.writers.delete(partition);
+      this.writers.set(partition, open);
+      return open;
+    }
+
+    if (this.writers.size >= this.options.maxOpenWriters) {
+      const [oldest, writer] = this.writers.entries().next().value as [
+        string,
+        ParquetWriter,
+      ];
+      this.writers.delete(oldest);
+      await writer.close();
+    }
+
+    const part = this.partCounts.get(partition) ?? 0;
+    this.partCounts.set(partition, part + 1);
+
+    const directory = path.join(this.outputDir, partition);
+    await fs.mkdir(directory, { recursive: true });
+    const writer = await ParquetWriter.openFile(
+      this.schema,
+      path.join(directory, `part-${String(part).padStart(4, "0")}.parquet`),
+      this.options.writerOptions,
+    );
+    this.writers.set(partition, writer);
+    return writer;
+  }
+}
+
+/**
+ * Builds the relative partition directory for a record, e.g.
+ * `dt=2024-01-15/region=eu`. DATE values are written as days, other
+ * temporal values as ISO-8601 timestamps, and nulls as the Hive default
+ * partition.
+ */
+export function partitionPath(
+  record: JsonRecord,
+  names: string[],
+  fields: Record<string, FieldDefinition>,
+): string {
+  return names
+    .map((name) => {
+      const value = formatPartitionValue(record[name], fields[name]?.type);
+      return `${escapePathName(name)}=${value}`;
+    })
+    .join("/");
+}
+
+function formatPartitionValue(value: unknown, type: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return DEFAULT_PARTITION;
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return escapePathName(type === "DATE" ? iso.slice(0, 10) : iso);
+  }
+  if (typeof value === "bigint" && type === "TIMESTAMP_MICROS") {
+    return escapePathName(new Date(Number(value / 1000n)).toISOString());
+  }
+  return escapePathName(String(value));
+}
+
+/**
+ * Percent-encodes the characters Hive escapes in partition path names.
+ */
+function escapePathName(value: string): string {
+  return value.replace(
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are escaped too
+    /[\u0000-\u001f"#%'*/:=?\\\u007f{[\]^]/g,
+    (char) =>
+      `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`,
+  );
+}
+
+function withoutFields<T>(
+  record: Record<string, T>,
+  names: string[],
+): Record<string, T> {
+  const remaining: Record<string, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!names.includes(key)) remaining[key] = value;
+  }
+  return remaining;
+}
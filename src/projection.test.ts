@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { parseRenames, RecordProjection } from "./projection.js";
+
+const record = { first: "Ada", last: "Lovelace", userId: 1, secret: "x" };
+
+describe("RecordProjection", () => {
+  it("should compute and rename before selecting columns by final name", () => {
+    const projection = new RecordProjection({
+      compute: ["full_name = first || ' ' || last", "initial = UPPER(first)"],
+      rename: { user_id: "userId" },
+      include: ["user_id", "full_name", "initial"],
+    });
+
+    expect(projection.apply(record)).toEqual({
+      user_id: 1,
+      full_name: "Ada Lovelace",
+      initial: "ADA",
+    });
+    // Included columns are ordered as listed
+    expect(Object.keys(projection.apply(record))).toEqual([
+      "user_id",
+      "full_name",
+      "initial",
+    ]);
+    expect(
+      new RecordProjection({
+        rename: { user_id: "userId" },
+        exclude: ["userId", "secret"],
+      }).apply(record),
+    ).toEqual({ first: "Ada", last: "Lovelace", user_id: 1 });
+  });
+
+  it("should let computed columns use earlier ones", () => {
+    const projection = new RecordProjection({
+      compute: ["a = userId + 1", "b = a * 10"],
+    });
+
+    expect(projection.apply(record)).toMatchObject({ a: 2, b: 20 });
+  });
+
+  it("should replace fields that a renamed field takes the name of", () => {
+    const projection = new RecordProjection({ rename: { first: "last" } });
+
+    expect(projection.apply(record)).toEqual({
+      first: "Lovelace",
+      userId: 1,
+      secret: "x",
+    });
+  });
+
+  it("should reject columns that are both included and excluded", () => {
+    expect(
+      () => new RecordProjection({ include: ["a", "b"], exclude: ["b"] }),
+    ).toThrow("Columns cannot be both included and excluded: b");
+    expect(() => new RecordProjection({ compute: ["no expression"] })).toThrow(
+      'Invalid computed column "no expression": expected name = expression',
+    );
+  });
+
+  it("should only be active when it changes records", () => {
+    expect(RecordProjection.isActive({ compute: [], include: [] })).toBe(false);
+    expect(RecordProjection.isActive({ exclude: ["secret"] })).toBe(true);
+  });
+});
+
+describe("parseRenames", () => {
+  it("should map new names to input fields", () => {
+    expect(parseRenames(["user_id=userId", " created = createdAt "])).toEqual({
+      user_id: "userId",
+      created: "createdAt",
+    });
+  });
+
+  it("should reject malformed and conflicting renames", () => {
+    expect(() => parseRenames(["user_id"])).toThrow(
+      'Invalid rename "user_id": expected new=old',
+    );
+    expect(() => parseRenames(["a=x", "a=y"])).toThrow('"a" is renamed twice');
+    expect(() => parseRenames(["a=x", "b=x"])).toThrow('"x" is renamed twice');
+  });
+});
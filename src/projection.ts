@@ -0,0 +1,160 @@
+import { compileExpression, type Expression } from "./expression.js";
+import type { JsonRecord } from "./index.js";
+
+/**
+ * Which fields of the input end up as columns, and under which names.
+ */
+export interface ProjectionOptions {
+  /** Computed columns, each as `name = expression` */
+  compute?: string[];
+  /** Input field names keyed by their new name */
+  rename?: Record<string, string>;
+  /** Columns to keep, by their final name; all others are dropped */
+  include?: string[];
+  /** Columns to drop, by their final name */
+  exclude?: string[];
+}
+
+interface ComputedColumn {
+  name: string;
+  expression: Expression;
+}
+
+/**
+ * Parses `new=old` rename pairs, such as `user_id=userId`.
+ */
+export function parseRenames(pairs: string[]): Record<string, string> {
+  const renames: Record<string, string> = {};
+  const sources = new Set<string>();
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf("=");
+    const name = pair.slice(0, separator).trim();
+    const source = pair.slice(separator + 1).trim();
+    if (separator === -1 || name === "" || source === "") {
+      throw new Error(
+        `Invalid rename "${pair}": expected new=old, e.g. user_id=userId`,
+      );
+    }
+    if (name in renames) {
+      throw new Error(`Invalid rename "${pair}": "${name}" is renamed twice`);
+    }
+    if (sources.has(source)) {
+      throw new Error(`Invalid rename "${pair}": "${source}" is renamed twice`);
+    }
+    renames[name] = source;
+    sources.add(source);
+  }
+  return renames;
+}
+
+/**
+ * Reshapes records before schema inference, so the inferred schema holds the
+ * projected columns. Steps run in a fixed order: computed columns are added
+ * (each can use the ones before it), fields are renamed, and the include and
+ * exclude lists are applied to the final names.
+ */
+export class RecordProjection {
+  private readonly computed: ComputedColumn[];
+  /** New names keyed by input field name */
+  private readonly renames: Map<string, string>;
+  private readonly renamedTo: Set<string>;
+  private readonly include: string[] | null;
+  private readonly exclude: Set<string>;
+
+  constructor(options: ProjectionOptions) {
+    this.computed = (options.compute ?? []).map(parseComputedColumn);
+    this.renames = new Map(
+      Object.entries(options.rename ?? {}).map(([name, source]) => [
+        source,
+        name,
+      ]),
+    );
+    this.renamedTo = new Set(this.renames.values());
+    this.include = options.include?.length ? options.include : null;
+    this.exclude = new Set(options.exclude ?? []);
+
+    const excludedIncludes = (this.include ?? []).filter((name) =>
+      this.exclude.has(name),
+    );
+    if (excludedIncludes.length > 0) {
+      throw new Error(
+        `Columns cannot be both included and excluded: ${excludedIncludes.join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Returns true when the options change records at all.
+   */
+  static isActive(options: ProjectionOptions): boolean {
+    return (
+      (options.compute?.length ?? 0) > 0 ||
+      Object.keys(options.rename ?? {}).length > 0 ||
+      (options.include?.length ?? 0) > 0 ||
+      (options.exclude?.length ?? 0) > 0
+    );
+  }
+
+  /**
+   * Projects a record. Throws when a computed column cannot be evaluated,
+   * such as a failed `CAST`.
+   */
+  apply(record: JsonRecord): JsonRecord {
+    let projected: JsonRecord = record;
+
+    if (this.computed.length > 0) {
+      projected = { ...record };
+      for (const { name, expression } of this.computed) {
+        projected[name] = expression(projected);
+      }
+    }
+
+    if (this.renames.size > 0) {
+      const renamed: JsonRecord = {};
+      for (const [key, value] of Object.entries(projected)) {
+        const name = this.renames.get(key);
+        if (name !== undefined) {
+          renamed[name] = value;
+        } else if (!this.renamedTo.has(key)) {
+          // Fields replaced by a renamed one are dropped
+          renamed[key] = value;
+        }
+      }
+      projected = renamed;
+    }
+
+    if (this.include) {
+      // Included columns keep the order in which they are listed
+      const included: JsonRecord = {};
+      for (const name of this.include) {
+        if (name in projected) included[name] = projected[name];
+      }
+      projected = included;
+    }
+
+    if (this.exclude.size > 0) {
+      const remaining: JsonRecord = {};
+      for (const [key, value] of Object.entries(projected)) {
+        if (!this.exclude.has(key)) remaining[key] = value;
+      }
+      projected = remaining;
+    }
+
+    return projected;
+  }
+}
+
+function parseComputedColumn(spec: string): ComputedColumn {
+  const separator = spec.indexOf("=");
+  const name = spec.slice(0, separator).trim();
+  if (separator === -1 || name === "") {
+    throw new Error(
+      `Invalid computed column "${spec}": expected name = expression`,
+    );
+  }
+  return {
+    name,
+    expression: compileExpression(spec.slice(separator + 1), name),
+  };
+}
@@ -0,0 +1,87 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import type { JsonRecord } from "./index.js";
+import { ReadPool } from "./read-pool.js";
+
+describe("ReadPool", () => {
+  let directory: string;
+  let files: string[];
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "read-pool-"));
+    const contents: Record<string, string> = {
+      "a.jsonl": Array.from({ length: 2500 }, (_, i) =>
+        JSON.stringify({ file: "a", i }),
+      ).join("\n"),
+      "b.jsonl": '{"file": "b", "i": 0}\n{oops\n{"file": "b", "i": 1}\n',
+      "c.json": '[{"file": "c", "i": 0}, {"file"',
+      "d.json": '{"file": "d", "i": 0}',
+    };
+    files = [];
+    for (const [name, content] of Object.entries(contents)) {
+      files.push(path.join(directory, name));
+      await fs.writeFile(path.join(directory, name), content);
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should yield each file's records in order, as a direct read would", async () => {
+    const pool = new ReadPool(files, {
+      concurrency: 2,
+      format: "auto",
+      selection: null,
+    });
+    const events: unknown[] = [];
+    const records: JsonRecord[] = [];
+    try {
+      for (const file of files) {
+        const name = path.basename(file);
+        try {
+          for await (const record of pool.read(file, (_error, line) =>
+            events.push(`${name}: malformed ${line}`),
+          )) {
+            records.push(record);
+            if (record.file !== "a") events.push(`${name}: ${record.i}`);
+          }
+        } catch (error) {
+          events.push(`${name}: ${(error as Error).name}`);
+        }
+      }
+    } finally {
+      await pool.close();
+    }
+
+    expect(records.filter((record) => record.file === "a")).toEqual(
+      Array.from({ length: 2500 }, (_, i) => ({ file: "a", i })),
+    );
+    expect(events).toEqual([
+      "b.jsonl: 0",
+      "b.jsonl: malformed {oops",
+      "b.jsonl: 1",
+      "c.json: 0",
+      "c.json: SyntaxError",
+      "d.json: 0",
+    ]);
+  });
+
+  it("should only read files in the order of the list", async () => {
+    const pool = new ReadPool(files, {
+      concurrency: 1,
+      format: "auto",
+      selection: null,
+    });
+    try {
+      await expect(pool.read(files[1]).next()).rejects.toThrow(
+        "is not the next file of the read pool",
+      );
+    } finally {
+      await pool.close();
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import { Worker } from "node:worker_threads";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { DecompressionError } from "./decompress.js";
+import type { InputFormat, JsonRecord } from "./index.js";
+import type { MalformedLineHandler } from "./reader.js";
+import { type RecordSelection, RecordsPathError } from "./records-path.js";
+
+/**
+ * A record, or a malformed NDJSON line, in the order it was read.
+ */
+export type ReadEvent =
+  | { record: JsonRecord }
+  | { malformed: { message: string; line: string } };
+
+/**
+ * Messages from a read worker about the file it is reading. `fileError` names
+ * an error that only rejects the rest of the file (see `isFileReadError`).
+ */
+export type ReaderMessage =
+  | { type: "chunk"; events: ReadEvent[] }
+  | { type: "end"; events: ReadEvent[] }
+  | {
+      type: "error";
+      events: ReadEvent[];
+      message: string;
+      fileError: string | null;
+    };
+
+/**
+ * Errors that only reject the rest of a file, recreated by name on the main
+ * thread so that they are handled as when reading the file directly.
+ */
+const FILE_READ_ERRORS: Record<string, new (message: string) => Error> = {
+  SyntaxError,
+  RecordsPathError,
+  DecompressionError,
+};
+
+export interface ReadWorkerData {
+  format: InputFormat;
+  selection: RecordSelection | null;
+}
+
+export interface ReadPoolOptions extends ReadWorkerData {
+  /** Worker threads reading files at once */
+  concurrency: number;
+}
+
+/**
+ * A file being read by a worker, with the messages not yet consumed.
+ */
+interface FileRead {
+  worker: Worker;
+  messages: ReaderMessage[];
+  notify: (() => void) | null;
+}
+
+/**
+ * The worker script next to this module, in the same language.
+ */
+const moduleFile = fileURLToPath(import.meta.url);
+const workerFile = path.join(
+  path.dirname(moduleFile),
+  `read-worker${path.extname(moduleFile)}`,
+);
+
+function startWorker(workerData: ReadWorkerData): Worker {
+  if (!workerFile.endsWith(".ts"))
+    return new Worker(workerFile, { workerData });
+
+  // Worker threads do not inherit the tsx loader that runs the TypeScript
+  // sources, so it is registered before the worker script is imported
+  const bootstrap = [
+    `import { register } from ${JSON.stringify(import.meta.resolve("tsx/esm/api"))};`,
+    "register();",
+    `await import(${JSON.stringify(pathToFileURL(workerFile).href)});`,
+  ].join("\n");
+  return new Worker(
+    new URL(`data:text/javascript,${encodeURIComponent(bootstrap)}`),
+    { workerData },
+  );
+}
+
+/**
+ * Reads and parses files on a pool of worker threads, up to `concurrency`
+ * files at once, while their records are consumed one file at a time in the
+ * order of the file list. Each worker holds at most two chunks of records
+ * ahead of the consumer, so memory stays bounded however far it falls behind.
+ */
+export class ReadPool {
+  private readonly idle: Worker[] = [];
+  private readonly workers: Worker[] = [];
+  private readonly reads = new Map<string, FileRead>();
+  private nextFile = 0;
+
+  constructor(
+    private readonly files: string[],
+    options: ReadPoolOptions,
+  ) {
+    const workerData: ReadWorkerData = {
+      format: options.format,
+      selection: options.selection,
+    };
+    const count = Math.min(options.concurrency, files.length);
+    for (let i = 0; i < count; i++) {
+      const worker = startWorker(workerData);
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Streams the records of the next file, which must be read in the order of
+   * the file list. Malformed NDJSON lines are passed to `onMalformed` before
+   * the record that follows them, as when reading the file directly.
+   */
+  async *read(
+    file: string,
+    onMalformed?: MalformedLineHandler,
+  ): AsyncGenerator<JsonRecord> {
+    const read = this.reads.get(file);
+    if (!read) {
+      throw new Error(`${file} is not the next file of the read pool`);
+    }
+
+    while (true) {
+      const message = await this.nextMessage(read);
+      if (message.type === "chunk") {
+        // The next chunk is parsed while this one is consumed
+        read.worker.postMessage({ type: "next" });
+      }
+      for (const event of message.events) {
+        if ("record" in event) {
+          yield event.record;
+        } else {
+          onMalformed?.(
+            new Error(event.malformed.message),
+            event.malformed.line,
+          );
+        }
+      }
+      if (message.type === "chunk") continue;
+
+      this.reads.delete(file);
+      this.idle.push(read.worker);
+      this.schedule();
+      if (message.type === "error") {
+        const ErrorType =
+          (message.fileError && FILE_READ_ERRORS[message.fileError]) || Error;
+        throw new ErrorType(message.message);
+      }
+      return;
+    }
+  }
+
+  /**
+   * Stops every worker.
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+    this.workers.length = 0;
+    this.idle.length = 0;
+    this.reads.clear();
+  }
+
+  /**
+   * Hands the next files of the list to idle workers.
+   */
+  private schedule(): void {
+    while (this.idle.length > 0 && this.nextFile < this.files.length) {
+      const worker = this.idle.shift() as Worker;
+      const file = this.files[this.nextFile++];
+      const read: FileRead = { worker, messages: [], notify: null };
+      this.reads.set(file, read);
+
+      worker.removeAllListeners("message");
+      worker.removeAllListeners("error");
+      worker.on("message", (message: ReaderMessage) => {
+        read.messages.push(message);
+        read.notify?.();
+      });
+      worker.on("error", (error: Error) => {
+        read.messages.push({
+          type: "error",
+          events: [],
+          message: error.message,
+          fileError: null,
+        });
+        read.notify?.();
+      });
+      worker.postMessage({ type: "read", file });
+    }
+  }
+
+  private async nextMessage(read: FileRead): Promise<ReaderMessage> {
+    while (read.messages.length === 0) {
+      await new Promise<void>((resolve) => {
+        read.notify = resolve;
+      });
+      read.notify = null;
+    }
+    return read.messages.shift() as ReaderMessage;
+  }
+}
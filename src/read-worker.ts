@@ -0,0 +1,63 @@
+import { parentPort, workerData } from "node:worker_threads";
+import type { ReadEvent, ReaderMessage, ReadWorkerData } from "./read-pool.js";
+import { isFileReadError, readRecords } from "./reader.js";
+
+/**
+ * Records sent to the main thread in one message.
+ */
+const CHUNK_SIZE = 1000;
+
+const { format, selection } = workerData as ReadWorkerData;
+const port = parentPort;
+let resume: (() => void) | null = null;
+
+port?.on(
+  "message",
+  (message: { type: "read"; file: string } | { type: "next" }) => {
+    if (message.type === "read") {
+      void readFile(message.file);
+    } else {
+      resume?.();
+      resume = null;
+    }
+  },
+);
+
+/**
+ * Reads a file and sends its records in chunks, waiting for the main thread
+ * to ask for each chunk after the first so that at most two are held.
+ */
+async function readFile(file: string): Promise<void> {
+  let events: ReadEvent[] = [];
+  const send = (message: ReaderMessage): void => port?.postMessage(message);
+
+  try {
+    const records = readRecords(
+      file,
+      format,
+      (error, line) => {
+        events.push({ malformed: { message: error.message, line } });
+      },
+      selection,
+    );
+    for await (const record of records) {
+      events.push({ record });
+      if (events.length >= CHUNK_SIZE) {
+        const next = new Promise<void>((resolve) => {
+          resume = resolve;
+        });
+        send({ type: "chunk", events });
+        events = [];
+        await next;
+      }
+    }
+    send({ type: "end", events });
+  } catch (error) {
+    send({
+      type: "error",
+      events,
+      message: error instanceof Error ? error.message : String(error),
+      fileError: isFileReadError(error) ? error.name : null,
+    });
+  }
+}
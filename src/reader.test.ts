@@ -0,0 +1,317 @@
+import * as zlib from "node:zlib";
+import { vol } from "memfs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DecompressionError } from "./decompress.js";
+import {
+  JsonRecordStreamParser,
+  readJsonRecords,
+  readRecords,
+  resolveInputFormat,
+} from "./reader.js";
+import { RecordsPathError } from "./records-path.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+/**
+ * Collects every record streamed from a file.
+ */
+async function collect(
+  file: string,
+  read = readJsonRecords,
+): Promise<unknown[]> {
+  const records: unknown[] = [];
+  for await (const record of read(file)) {
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Feeds a document to a parser in fixed-size chunks.
+ */
+function parseInChunks(text: string, chunkSize: number): unknown[] {
+  const parser = new JsonRecordStreamParser();
+  const records: unknown[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    records.push(...parser.push(text.slice(i, i + chunkSize)));
+  }
+  parser.end();
+  return records;
+}
+
+describe("JsonRecordStreamParser", () => {
+  it("should emit each element of a top-level array", () => {
+    const records = [
+      { id: 1, name: "John", tags: ["a", "b"] },
+      { id: 2, name: 'quote " and \\ backslash', nested: { ok: true } },
+      { id: 3, text: "brackets ] } [ { inside strings" },
+    ];
+    const text = JSON.stringify(records, null, 2);
+
+    for (const chunkSize of [1, 3, 7, text.length]) {
+      expect(parseInChunks(text, chunkSize)).toEqual(records);
+    }
+  });
+
+  it("should emit a single top-level object as one record", () => {
+    const record = { id: 999, title: "Single Record", value: 42.5 };
+    expect(parseInChunks(JSON.stringify(record), 4)).toEqual([record]);
+  });
+
+  it("should emit scalar array elements", () => {
+    expect(parseInChunks('[1, "two", true, null, 4.5]', 2)).toEqual([
+      1,
+      "two",
+      true,
+      null,
+      4.5,
+    ]);
+  });
+
+  it("should accept an empty array", () => {
+    expect(parseInChunks(" [ ] ", 1)).toEqual([]);
+  });
+
+  it("should reject documents that are not arrays or objects", () => {
+    expect(() => parseInChunks("invalid json", 4)).toThrow(SyntaxError);
+  });
+
+  it("should reject truncated documents", () => {
+    expect(() => parseInChunks('[{"id": 1}, {"id": 2', 4)).toThrow(
+      "Unexpected end of JSON input",
+    );
+  });
+
+  it("should reject trailing content after the document", () => {
+    expect(() => parseInChunks('{"id": 1} {"id": 2}', 4)).toThrow(
+      "after end of JSON",
+    );
+  });
+
+  it("should reject malformed separators", () => {
+    expect(() => parseInChunks('[{"id": 1},, {"id": 2}]', 4)).toThrow(
+      SyntaxError,
+    );
+    expect(() => parseInChunks('[{"id": 1} {"id": 2}]', 4)).toThrow(
+      SyntaxError,
+    );
+  });
+});
+
+describe("readJsonRecords", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should stream records from a file larger than one read chunk", async () => {
+    const records = Array.from({ length: 5000 }, (_, i) => ({
+      id: i,
+      name: `user-${i}`,
+      note: "é — multi-byte text",
+    }));
+    vol.fromJSON({ "/test/large.json": JSON.stringify(records) });
+
+    expect(await collect("/test/large.json")).toEqual(records);
+  });
+
+  it("should fail on invalid JSON", async () => {
+    vol.fromJSON({ "/test/file.json": "[{" });
+
+    await expect(collect("/test/file.json")).rejects.toThrow(SyntaxError);
+  });
+});
+
+describe("readNdjsonRecords", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should stream one record per line and skip blank lines", async () => {
+    vol.fromJSON({
+      "/test/events.jsonl": '{"id": 1}\r\n\n  {"id": 2}  \n{"id": 3}',
+    });
+
+    expect(
+      await collect("/test/events.jsonl", (file) => readRecords(file, "auto")),
+    ).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it("should report malformed lines with their line number", async () => {
+    vol.fromJSON({
+      "/test/events.ndjson": '{"id": 1}\n\n{"id": \n{"id": 3}\n',
+    });
+
+    await expect(
+      collect("/test/events.ndjson", (file) => readRecords(file, "auto")),
+    ).rejects.toThrow("Malformed JSON on line 3");
+  });
+
+  it("should pass malformed lines to the handler and keep reading", async () => {
+    vol.fromJSON({
+      "/test/events.ndjson": '{"id": 1}\n{"id": \n{"id": 3}\n',
+    });
+    const malformed: string[] = [];
+
+    expect(
+      await collect("/test/events.ndjson", (file) =>
+        readRecords(file, "auto", (error, line) =>
+          malformed.push(`${line} (${error.message.split(":")[0]})`),
+        ),
+      ),
+    ).toEqual([{ id: 1 }, { id: 3 }]);
+    expect(malformed).toEqual(['{"id": (Malformed JSON on line 2)']);
+  });
+});
+
+describe("readRecords", () => {
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should select the records at a key path in both input formats", async () => {
+    const document = {
+      meta: { fetched_at: "2024-05-01" },
+      data: { items: [{ id: 1 }, { id: 2 }] },
+    };
+    vol.fromJSON({
+      "/test/dump.json": JSON.stringify(document),
+      "/test/dumps.jsonl": `${JSON.stringify(document)}\n`,
+    });
+    const selection = {
+      recordsPath: ["data", "items"],
+      envelopeFields: [{ name: "fetched_at", path: ["meta", "fetched_at"] }],
+    };
+    const expected = [
+      { id: 1, fetched_at: "2024-05-01" },
+      { id: 2, fetched_at: "2024-05-01" },
+    ];
+
+    for (const file of ["/test/dump.json", "/test/dumps.jsonl"]) {
+      expect(
+        await collect(file, (path) =>
+          readRecords(path, "auto", undefined, selection),
+        ),
+      ).toEqual(expected);
+    }
+  });
+});
+
+describe("records path errors", () => {
+  const selection = { recordsPath: ["data", "items"], envelopeFields: [] };
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should pass NDJSON lines without the records path to the handler", async () => {
+    vol.fromJSON({
+      "/test/dumps.jsonl": [
+        '{"data": {"items": [{"id": 1}]}}',
+        '{"error": "rate limited"}',
+        '{"data": {"items": [{"id": 2}]}}',
+      ].join("\n"),
+    });
+    const skipped: string[] = [];
+
+    expect(
+      await collect("/test/dumps.jsonl", (file) =>
+        readRecords(
+          file,
+          "auto",
+          (error, line) => skipped.push(`${line}: ${error.message}`),
+          selection,
+        ),
+      ),
+    ).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(skipped).toEqual([
+      '{"error": "rate limited"}: Records path "data.items" not found on line 2',
+    ]);
+  });
+
+  it("should fail a JSON document without the records path with a RecordsPathError", async () => {
+    vol.fromJSON({ "/test/dump.json": '{"error": "rate limited"}' });
+
+    await expect(
+      collect("/test/dump.json", (file) =>
+        readRecords(file, "auto", undefined, selection),
+      ),
+    ).rejects.toThrow(RecordsPathError);
+  });
+});
+
+describe("compressed input", () => {
+  const text = '{"id": 1}\n{"id": 2}\n';
+  const read = (file: string) => readRecords(file, "auto");
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should decompress files by their extension", async () => {
+    vol.fromJSON({
+      "/test/a.jsonl.gz": zlib.gzipSync(text),
+      "/test/b.jsonl.br": zlib.brotliCompressSync(text),
+    });
+
+    for (const file of ["/test/a.jsonl.gz", "/test/b.jsonl.br"]) {
+      expect(await collect(file, read)).toEqual([{ id: 1 }, { id: 2 }]);
+    }
+  });
+
+  it.skipIf(!zlib.zstdCompressSync)(
+    "should decompress zstd files",
+    async () => {
+      vol.fromJSON({ "/test/a.ndjson.zst": zlib.zstdCompressSync(text) });
+
+      expect(await collect("/test/a.ndjson.zst", read)).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+    },
+  );
+
+  it("should detect compression without an extension from the leading bytes", async () => {
+    const records = Array.from({ length: 5000 }, (_, i) => ({ id: i }));
+    vol.fromJSON({
+      "/test/large.json": zlib.gzipSync(JSON.stringify(records)),
+    });
+
+    expect(await collect("/test/large.json")).toEqual(records);
+  });
+
+  it("should fail on corrupt compressed data with a DecompressionError", async () => {
+    vol.fromJSON({ "/test/a.jsonl.gz": zlib.gzipSync(text).subarray(0, 12) });
+
+    const failure = collect("/test/a.jsonl.gz", read);
+    await expect(failure).rejects.toThrow(DecompressionError);
+    await expect(failure).rejects.toThrow(
+      "Cannot decompress gzip data: unexpected end of file",
+    );
+  });
+});
+
+describe("resolveInputFormat", () => {
+  it("should detect NDJSON by file extension", () => {
+    expect(resolveInputFormat("/data/a.jsonl", "auto")).toBe("ndjson");
+    expect(resolveInputFormat("/data/a.NDJSON", "auto")).toBe("ndjson");
+    expect(resolveInputFormat("/data/a.json", "auto")).toBe("json");
+  });
+
+  it("should look past a compression extension", () => {
+    expect(resolveInputFormat("/data/a.jsonl.gz", "auto")).toBe("ndjson");
+    expect(resolveInputFormat("/data/a.json.zst", "auto")).toBe("json");
+  });
+
+  it("should honour an explicit input format", () => {
+    expect(resolveInputFormat("/data/a.json", "ndjson")).toBe("ndjson");
+    expect(resolveInputFormat("/data/a.jsonl", "json")).toBe("json");
+  });
+});
@@ -0,0 +1,389 @@
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { StringDecoder } from "node:string_decoder";
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  createDecompressor,
+  DecompressionError,
+  detectCompression,
+  stripCompressionExtension,
+} from "./decompress.js";
+import type { InputFormat, JsonRecord } from "./index.js";
+import {
+  KeyPathStreamParser,
+  type RecordSelection,
+  RecordsPathError,
+  selectRecords,
+} from "./records-path.js";
+
+/**
+ * Receives a malformed NDJSON line, or one without records at the records
+ * path, in place of failing the whole file.
+ */
+export type MalformedLineHandler = (error: Error, line: string) => void;
+
+/**
+ * Size of each chunk read from disk while streaming a file.
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Reads a file as a sequence of UTF-8 text chunks without loading it whole,
+ * decompressing it on the fly when it is compressed.
+ */
+export async function* readTextChunks(file: string): AsyncGenerator<string> {
+  const decoder = new StringDecoder("utf8");
+  for await (const bytes of readByteChunks(file)) {
+    yield decoder.write(bytes);
+  }
+  const rest = decoder.end();
+  if (rest.length > 0) yield rest;
+}
+
+/**
+ * Reads the bytes of a file in chunks. A file compressed with gzip, brotli or
+ * zstd, by its extension or its first bytes, is decompressed.
+ */
+async function* readByteChunks(file: string): AsyncGenerator<Buffer> {
+  const chunks = readFileChunks(file);
+  const first = await chunks.next();
+  if (first.done) return;
+
+  const compression = detectCompression(file, first.value);
+  if (!compression) {
+    yield first.value;
+    yield* chunks;
+    return;
+  }
+
+  const decompressor = createDecompressor(compression);
+  let readError: unknown = null;
+  const compressed = Readable.from(
+    (async function* () {
+      try {
+        yield first.value;
+        yield* chunks;
+      } catch (error) {
+        readError = error;
+        throw error;
+      }
+    })(),
+  );
+  // Failures of either stream surface while reading the decompressor
+  pipeline(compressed, decompressor).catch(() => {});
+  try {
+    for await (const chunk of decompressor) {
+      yield chunk as Buffer;
+    }
+  } catch (error) {
+    if (error === readError) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new DecompressionError(
+      `Cannot decompress ${compression} data: ${reason}`,
+    );
+  }
+}
+
+async function* readFileChunks(file: string): AsyncGenerator<Buffer> {
+  const handle = await fs.open(file, "r");
+  try {
+    while (true) {
+      const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, null);
+      if (bytesRead === 0) break;
+      yield buffer.subarray(0, bytesRead);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+type ParserState = "start" | "array" | "object" | "done";
+type ElementKind = "container" | "string" | "scalar";
+
+/**
+ * Incremental JSON parser that emits the elements of a top-level array one at
+ * a time. A document holding a single top-level object is emitted as one
+ * record, matching the non-streaming behaviour of `JSON.parse`.
+ */
+export class JsonRecordStreamParser {
+  private state: ParserState = "start";
+  private element: ElementKind | null = null;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private pending = "";
+  private expectingElement = true;
+  private sawElement = false;
+
+  /**
+   * Feeds a text chunk and returns every record completed by it.
+   */
+  push(chunk: string): unknown[] {
+    const records: unknown[] = [];
+    let elementStart = this.element ? 0 : -1;
+
+    const finishElement = (end: number): void => {
+      this.pending += chunk.slice(elementStart, end);
+      const text = this.pending;
+      this.pending = "";
+      this.element = null;
+      elementStart = -1;
+      records.push(JSON.parse(text));
+      if (this.state === "object") {
+        this.state = "done";
+      }
+    };
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.element === "string") finishElement(i + 1);
+        }
+        continue;
+      }
+
+      if (this.element === "container") {
+        if (char === '"') {
+          this.inString = true;
+        } else if (char === "{" || char === "[") {
+          this.depth++;
+        } else if (char === "}" || char === "]") {
+          this.depth--;
+          if (this.depth === 0) finishElement(i + 1);
+        }
+        continue;
+      }
+
+      if (this.element === "scalar") {
+        if (!isWhitespace(char) && char !== "," && char !== "]") continue;
+        finishElement(i);
+      }
+
+      if (isWhitespace(char)) continue;
+
+      switch (this.state) {
+        case "done":
+          throw new SyntaxError(`Unexpected token '${char}' after end of JSON`);
+        case "start":
+          if (char === "[") {
+            this.state = "array";
+          } else if (char === "{") {
+            this.state = "object";
+            this.element = "container";
+            this.depth = 1;
+            elementStart = i;
+          } else {
+            throw new SyntaxError(
+              `Unexpected token '${char}', expected a JSON array or object`,
+            );
+          }
+          break;
+        default:
+          if (!this.expectingElement) {
+            if (char === ",") {
+              this.expectingElement = true;
+            } else if (char === "]") {
+              this.state = "done";
+            } else {
+              throw new SyntaxError(
+                `Unexpected token '${char}', expected ',' or ']' in JSON array`,
+              );
+            }
+          } else if (char === "]" && !this.sawElement) {
+            this.state = "done";
+          } else if (char === "," || char === "]") {
+            throw new SyntaxError(`Unexpected token '${char}' in JSON array`);
+          } else {
+            this.expectingElement = false;
+            this.sawElement = true;
+            elementStart = i;
+            if (char === "{" || char === "[") {
+              this.element = "container";
+              this.depth = 1;
+            } else if (char === '"') {
+              this.element = "string";
+              this.inString = true;
+            } else {
+              this.element = "scalar";
+            }
+          }
+      }
+    }
+
+    if (this.element && elementStart !== -1) {
+      this.pending += chunk.slice(elementStart);
+    }
+
+    return records;
+  }
+
+  /**
+   * Signals end of input, failing if the document was left incomplete.
+   */
+  end(): void {
+    if (this.state !== "done") {
+      throw new SyntaxError("Unexpected end of JSON input");
+    }
+  }
+}
+
+/**
+ * Streams the records of a JSON file one at a time. The file may contain a
+ * top-level array of records or a single record object, or with a
+ * `selection` a document holding the records at a key path.
+ */
+export async function* readJsonRecords(
+  file: string,
+  selection?: RecordSelection | null,
+): AsyncGenerator<JsonRecord> {
+  if (selection) {
+    const parser = new KeyPathStreamParser(selection);
+    for await (const chunk of readTextChunks(file)) {
+      yield* parser.push(chunk);
+    }
+    yield* parser.end();
+    return;
+  }
+
+  const parser = new JsonRecordStreamParser();
+
+  for await (const chunk of readTextChunks(file)) {
+    for (const record of parser.push(chunk)) {
+      yield record as JsonRecord;
+    }
+  }
+  parser.end();
+}
+
+/**
+ * Streams the records of a newline-delimited JSON (JSON Lines) file, one
+ * record per line, or with a `selection` the records at a key path of each
+ * line. Blank lines are ignored; a malformed line, or one without the records
+ * path, fails with its 1-based line number, or is passed to `onMalformed`
+ * when given.
+ */
+export async function* readNdjsonRecords(
+  file: string,
+  onMalformed?: MalformedLineHandler,
+  selection?: RecordSelection | null,
+): AsyncGenerator<JsonRecord> {
+  let pending = "";
+  let lineNumber = 0;
+
+  const parseLine = (line: string): JsonRecord[] => {
+    lineNumber++;
+    const text = line.trim();
+    if (text === "") return [];
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const malformed = new SyntaxError(
+        `Malformed JSON on line ${lineNumber}: ${reason}`,
+      );
+      if (!onMalformed) throw malformed;
+      onMalformed(malformed, text);
+      return [];
+    }
+    if (!selection) return [document as JsonRecord];
+    try {
+      return selectRecords(document, selection);
+    } catch (error) {
+      if (!(error instanceof RecordsPathError)) throw error;
+      const unselectable = new RecordsPathError(
+        `${error.message} on line ${lineNumber}`,
+      );
+      if (!onMalformed) throw unselectable;
+      onMalformed(unselectable, text);
+      return [];
+    }
+  };
+
+  for await (const chunk of readTextChunks(file)) {
+    pending += chunk;
+    let newline = pending.indexOf("\n");
+    while (newline !== -1) {
+      yield* parseLine(pending.slice(0, newline));
+      pending = pending.slice(newline + 1);
+      newline = pending.indexOf("\n");
+    }
+  }
+
+  yield* parseLine(pending);
+}
+
+/**
+ * Resolves `auto` to a concrete input format from the file extension, before
+ * any compression extension.
+ */
+export function resolveInputFormat(
+  file: string,
+  format: InputFormat,
+): Exclude<InputFormat, "auto"> {
+  if (format !== "auto") return format;
+  const extension = path.extname(stripCompressionExtension(file)).toLowerCase();
+  return extension === ".jsonl" || extension === ".ndjson" ? "ndjson" : "json";
+}
+
+/**
+ * Streams the records of a file in the given input format. `onMalformed`
+ * only applies to NDJSON, where each line stands on its own.
+ */
+export function readRecords(
+  file: string,
+  format: InputFormat,
+  onMalformed?: MalformedLineHandler,
+  selection?: RecordSelection | null,
+): AsyncGenerator<JsonRecord> {
+  return resolveInputFormat(file, format) === "ndjson"
+    ? readNdjsonRecords(file, onMalformed, selection)
+    : readJsonRecords(file, selection);
+}
+
+/**
+ * Returns true for a value that can be written as a row: a JSON object, not
+ * null, an array or a scalar.
+ */
+export function isJsonRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describes why a value read in place of a record is not one.
+ */
+export function notARecordReason(value: unknown): string {
+  const kind =
+    value === null
+      ? "null"
+      : Array.isArray(value)
+        ? "an array"
+        : `a ${typeof value}`;
+  return `Record is ${kind}, not a JSON object`;
+}
+
+/**
+ * Returns true for errors that stop the reading of one file, such as a JSON
+ * syntax error or corrupt compressed data, after which the rest of that file
+ * is rejected and the run goes on.
+ */
+export function isFileReadError(error: unknown): error is Error {
+  return (
+    error instanceof SyntaxError ||
+    error instanceof RecordsPathError ||
+    error instanceof DecompressionError
+  );
+}
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t";
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  KeyPathStreamParser,
+  parseKeyPath,
+  parseRecordSelection,
+  type RecordSelection,
+  selectRecords,
+} from "./records-path.js";
+
+const selection: RecordSelection = {
+  recordsPath: ["data", "items"],
+  envelopeFields: [{ name: "fetched_at", path: ["meta", "fetched_at"] }],
+};
+
+/**
+ * Feeds a document to a parser in fixed-size chunks.
+ */
+function parseInChunks(
+  text: string,
+  chunkSize: number,
+  select = selection,
+): unknown[] {
+  const parser = new KeyPathStreamParser(select);
+  const records: unknown[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    records.push(...parser.push(text.slice(i, i + chunkSize)));
+  }
+  records.push(...parser.end());
+  return records;
+}
+
+describe("parseKeyPath", () => {
+  it("should accept plain and JSONPath-style key paths", () => {
+    expect(parseKeyPath("data.items")).toEqual(["data", "items"]);
+    expect(parseKeyPath("$.data.items[*]")).toEqual(["data", "items"]);
+    expect(parseKeyPath("items")).toEqual(["items"]);
+  });
+
+  it("should reject empty keys", () => {
+    expect(() => parseKeyPath("data..items")).toThrow(
+      'Invalid key path "data..items"',
+    );
+    expect(() => parseKeyPath("$")).toThrow('Invalid key path "$"');
+  });
+});
+
+describe("parseRecordSelection", () => {
+  it("should name envelope fields after their last key unless renamed", () => {
+    expect(
+      parseRecordSelection("data.items", [
+        "meta.fetched_at",
+        "src=meta.source",
+      ]),
+    ).toEqual({
+      recordsPath: ["data", "items"],
+      envelopeFields: [
+        { name: "fetched_at", path: ["meta", "fetched_at"] },
+        { name: "src", path: ["meta", "source"] },
+      ],
+    });
+    expect(parseRecordSelection(undefined)).toBeNull();
+  });
+
+  it("should reject envelope fields that cannot be copied", () => {
+    expect(() => parseRecordSelection(undefined, ["meta.id"])).toThrow(
+      "Envelope fields require a records path",
+    );
+    expect(() => parseRecordSelection("data.items", ["data"])).toThrow(
+      'Invalid envelope field "data": it contains the records path',
+    );
+    expect(() => parseRecordSelection("data.items", ["data.items.id"])).toThrow(
+      'Invalid envelope field "data.items.id": it lies inside',
+    );
+    expect(() => parseRecordSelection("data.items", ["a.id", "b.id"])).toThrow(
+      'Duplicate envelope field "id"',
+    );
+  });
+});
+
+describe("KeyPathStreamParser", () => {
+  it("should emit the records at the path with envelope fields", () => {
+    const text = JSON.stringify(
+      {
+        meta: { fetched_at: "2024-05-01", skipped: { text: "] } [ {" } },
+        data: {
+          total: 2,
+          items: [
+            { id: 1, name: 'quote " and \\ backslash' },
+            { id: 2, tags: ["a", "b"] },
+          ],
+        },
+      },
+      null,
+      2,
+    );
+
+    for (const chunkSize of [1, 3, 7, text.length]) {
+      expect(parseInChunks(text, chunkSize)).toEqual([
+        { id: 1, name: 'quote " and \\ backslash', fetched_at: "2024-05-01" },
+        { id: 2, tags: ["a", "b"], fetched_at: "2024-05-01" },
+      ]);
+    }
+  });
+
+  it("should hold records back until later envelope fields are read", () => {
+    const parser = new KeyPathStreamParser(selection);
+
+    expect(parser.push('{"data": {"items": [{"id": 1}]}, ')).toEqual([]);
+    expect(parser.push('"meta": {"fetched_at": 5}}')).toEqual([
+      { id: 1, fetched_at: 5 },
+    ]);
+    expect(parser.end()).toEqual([]);
+  });
+
+  it("should leave out envelope fields missing from the document", () => {
+    expect(parseInChunks('{"data": {"items": [{"id": 1}]}}', 4)).toEqual([
+      { id: 1 },
+    ]);
+  });
+
+  it("should emit a single object at the path as one record", () => {
+    expect(
+      parseInChunks('{"data": {"items": {"id": 1}}}', 5, {
+        recordsPath: ["data", "items"],
+        envelopeFields: [],
+      }),
+    ).toEqual([{ id: 1 }]);
+  });
+
+  it("should fail when the path is missing or holds no records", () => {
+    expect(() => parseInChunks('{"data": {"other": []}}', 3)).toThrow(
+      'Records path "data.items" not found',
+    );
+    expect(() => parseInChunks('{"data": {"items": 42}}', 3)).toThrow(
+      'Records path "data.items" does not hold an array or object',
+    );
+  });
+
+  it("should reject malformed and truncated documents", () => {
+    expect(() => parseInChunks('{"data" {"items": []}}', 4)).toThrow(
+      SyntaxError,
+    );
+    expect(() => parseInChunks('{"data": {"items": [1,]}}', 4)).toThrow(
+      SyntaxError,
+    );
+    expect(() => parseInChunks('{"data": {"items": [{"id": 1}', 4)).toThrow(
+      "Unexpected end of JSON input",
+    );
+  });
+});
+
+describe("selectRecords", () => {
+  it("should pick the records and envelope fields of a parsed document", () => {
+    expect(
+      selectRecords(
+        { meta: { fetched_at: "x" }, data: { items: [{ id: 1 }, { id: 2 }] } },
+        selection,
+      ),
+    ).toEqual([
+      { id: 1, fetched_at: "x" },
+      { id: 2, fetched_at: "x" },
+    ]);
+    expect(() => selectRecords({ data: {} }, selection)).toThrow(
+      'Records path "data.items" not found',
+    );
+  });
+});
@@ -0,0 +1,445 @@
+import type { JsonRecord } from "./index.js";
+
+/**
+ * A value of the document around the records that is copied onto each record.
+ */
+export interface EnvelopeField {
+  /** Name of the field added to every record */
+  name: string;
+  /** Keys leading to the value, e.g. `["meta", "fetched_at"]` */
+  path: string[];
+}
+
+/**
+ * Where the records sit inside each input document.
+ */
+export interface RecordSelection {
+  /** Keys leading to the record array, e.g. `["data", "items"]` */
+  recordsPath: string[];
+  envelopeFields: EnvelopeField[];
+}
+
+/**
+ * A document without records at the records path. Like a syntax error, it
+ * rejects that document or NDJSON line rather than failing the run.
+ */
+export class RecordsPathError extends Error {
+  override name = "RecordsPathError";
+}
+
+/**
+ * Parses a JSONPath-style key path such as `data.items`, `$.data.items` or
+ * `data.items[*]` into its keys.
+ */
+export function parseKeyPath(text: string): string[] {
+  const trimmed = text
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[\*\]$/, "");
+  const keys = trimmed.split(".");
+  if (trimmed === "" || keys.some((key) => key === "")) {
+    throw new Error(
+      `Invalid key path "${text}": expected keys separated by dots, e.g. data.items`,
+    );
+  }
+  return keys;
+}
+
+/**
+ * Builds the record selection for `--records-path` and `--envelope-fields`.
+ * Envelope fields are given as `path` or `name=path`, where the name defaults
+ * to the last key of the path.
+ */
+export function parseRecordSelection(
+  recordsPath: string | undefined,
+  envelopeFields: string[] = [],
+): RecordSelection | null {
+  if (recordsPath === undefined) {
+    if (envelopeFields.length > 0) {
+      throw new Error("Envelope fields require a records path");
+    }
+    return null;
+  }
+
+  const selection: RecordSelection = {
+    recordsPath: parseKeyPath(recordsPath),
+    envelopeFields: [],
+  };
+  for (const spec of envelopeFields) {
+    const separator = spec.indexOf("=");
+    const path = parseKeyPath(
+      separator === -1 ? spec : spec.slice(separator + 1),
+    );
+    const name =
+      separator === -1
+        ? path[path.length - 1]
+        : spec.slice(0, separator).trim();
+    if (name === "") {
+      throw new Error(`Invalid envelope field "${spec}": the name is empty`);
+    }
+    if (isPrefix(path, selection.recordsPath)) {
+      throw new Error(
+        `Invalid envelope field "${spec}": it contains the records path`,
+      );
+    }
+    if (isPrefix(selection.recordsPath, path)) {
+      throw new Error(
+        `Invalid envelope field "${spec}": it lies inside the records path`,
+      );
+    }
+    if (selection.envelopeFields.some((field) => field.name === name)) {
+      throw new Error(`Duplicate envelope field "${name}"`);
+    }
+    selection.envelopeFields.push({ name, path });
+  }
+  return selection;
+}
+
+/**
+ * Picks the records out of an already parsed document, as for one line of an
+ * NDJSON file. An array at the records path yields its elements and an
+ * object yields itself.
+ */
+export function selectRecords(
+  document: unknown,
+  selection: RecordSelection,
+): JsonRecord[] {
+  const target = lookup(document, selection.recordsPath);
+  if (target === undefined) {
+    throw new RecordsPathError(recordsPathNotFound(selection));
+  }
+  if (!Array.isArray(target) && !isPlainObject(target)) {
+    throw new RecordsPathError(recordsPathNotRecords(selection));
+  }
+
+  const envelope: JsonRecord = {};
+  for (const { name, path } of selection.envelopeFields) {
+    const value = lookup(document, path);
+    if (value !== undefined) envelope[name] = value;
+  }
+  const records = Array.isArray(target) ? target : [target];
+  return records.map((record) => withEnvelope(record, envelope));
+}
+
+type Expect = "value" | "key" | "colon" | "separator" | "done";
+
+/**
+ * A container the parser descends into: an object on the way to a selected
+ * key path, or the record array itself.
+ */
+interface Frame {
+  kind: "object" | "records";
+  path: string[];
+  /** Key of the object member being read */
+  key: string | null;
+  /** Nothing has been read inside the container yet */
+  empty: boolean;
+}
+
+/**
+ * A value being read in full, either to keep its text or to skip over it.
+ */
+interface ValueScan {
+  kind: "container" | "string" | "scalar";
+  capture: boolean;
+  depth: number;
+  onEnd: (text: string) => void;
+}
+
+/**
+ * Incremental JSON parser that emits the elements of the array at a key path,
+ * such as the `items` of `{"meta": {...}, "data": {"items": [...]}}`, one at a
+ * time. Everything outside the selected paths is skipped without being parsed.
+ *
+ * Envelope fields are copied onto every record. Records that come before an
+ * envelope field in the document are held back until it has been read, so
+ * envelope fields placed after the records cost memory.
+ */
+export class KeyPathStreamParser {
+  private expect: Expect = "value";
+  private stack: Frame[] = [];
+  private scan: ValueScan | null = null;
+  private inString = false;
+  private escaped = false;
+  private pending = "";
+  private foundRecords = false;
+  private envelope: JsonRecord = {};
+  private envelopeSeen = 0;
+  private heldBack: unknown[] = [];
+  private output: JsonRecord[] = [];
+
+  constructor(private readonly selection: RecordSelection) {}
+
+  /**
+   * Feeds a text chunk and returns every record completed by it.
+   */
+  push(chunk: string): JsonRecord[] {
+    let captureStart = this.scan?.capture ? 0 : -1;
+
+    const finishScan = (end: number): void => {
+      const scan = this.scan as ValueScan;
+      let text = "";
+      if (scan.capture) {
+        text = this.pending + chunk.slice(captureStart, end);
+        this.pending = "";
+      }
+      this.scan = null;
+      captureStart = -1;
+      scan.onEnd(text);
+    };
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      const scan = this.scan;
+
+      if (scan) {
+        if (this.inString) {
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (char === "\\") {
+            this.escaped = true;
+          } else if (char === '"') {
+            this.inString = false;
+            if (scan.kind === "string") finishScan(i + 1);
+          }
+          continue;
+        }
+        if (scan.kind === "container") {
+          if (char === '"') {
+            this.inString = true;
+          } else if (char === "{" || char === "[") {
+            scan.depth++;
+          } else if (char === "}" || char === "]") {
+            scan.depth--;
+            if (scan.depth === 0) finishScan(i + 1);
+          }
+          continue;
+        }
+        // A scalar ends at the first character that cannot be part of it
+        if (!isWhitespace(char) && char !== "," && char !== "]" && char !== "}")
+          continue;
+        finishScan(i);
+      }
+
+      if (isWhitespace(char)) continue;
+      const frame = this.stack[this.stack.length - 1];
+
+      switch (this.expect) {
+        case "done":
+          throw new SyntaxError(`Unexpected token '${char}' after end of JSON`);
+        case "key":
+          if (char === "}" && frame.empty) {
+            this.closeFrame();
+          } else if (char === '"') {
+            frame.empty = false;
+            this.startScan("string", true, (text) => {
+              frame.key = JSON.parse(text) as string;
+              this.expect = "colon";
+            });
+            captureStart = i;
+          } else {
+            throw new SyntaxError(
+              `Unexpected token '${char}', expected a property name in JSON object`,
+            );
+          }
+          break;
+        case "colon":
+          if (char !== ":") {
+            throw new SyntaxError(
+              `Unexpected token '${char}', expected ':' in JSON object`,
+            );
+          }
+          this.expect = "value";
+          break;
+        case "separator":
+          if (char === ",") {
+            this.expect = frame.kind === "object" ? "key" : "value";
+          } else if (
+            (char === "}" && frame.kind === "object") ||
+            (char === "]" && frame.kind === "records")
+          ) {
+            this.closeFrame();
+          } else {
+            throw new SyntaxError(`Unexpected token '${char}' in JSON`);
+          }
+          break;
+        case "value":
+          if (frame?.kind === "records" && char === "]" && frame.empty) {
+            this.closeFrame();
+            break;
+          }
+          if (char === "," || char === "]" || char === "}" || char === ":") {
+            throw new SyntaxError(`Unexpected token '${char}' in JSON`);
+          }
+          if (frame) frame.empty = false;
+          this.beginValue(char, frame);
+          if (this.scan?.capture) captureStart = i;
+          break;
+      }
+    }
+
+    if (this.scan?.capture && captureStart !== -1) {
+      this.pending += chunk.slice(captureStart);
+    }
+
+    const records = this.output;
+    this.output = [];
+    return records;
+  }
+
+  /**
+   * Signals end of input and returns the records still held back for
+   * envelope fields that never appeared.
+   */
+  end(): JsonRecord[] {
+    if (this.expect !== "done") {
+      throw new SyntaxError("Unexpected end of JSON input");
+    }
+    if (!this.foundRecords) {
+      throw new RecordsPathError(recordsPathNotFound(this.selection));
+    }
+    const records = this.heldBack.map((record) =>
+      withEnvelope(record, this.envelope),
+    );
+    this.heldBack = [];
+    return records;
+  }
+
+  /**
+   * Decides what to do with a value starting with `char`: descend into it,
+   * keep it as a record or envelope field, or skip it.
+   */
+  private beginValue(char: string, frame: Frame | undefined): void {
+    if (frame?.kind === "records") {
+      this.startScan(scanKind(char), true, (text) => {
+        this.addRecord(JSON.parse(text));
+        this.valueDone();
+      });
+      return;
+    }
+
+    const path = frame ? [...frame.path, frame.key as string] : [];
+    const { recordsPath, envelopeFields } = this.selection;
+
+    const envelopeField = envelopeFields.find((field) =>
+      samePath(field.path, path),
+    );
+    if (envelopeField) {
+      this.startScan(scanKind(char), true, (text) => {
+        this.envelope[envelopeField.name] = JSON.parse(text);
+        this.envelopeSeen++;
+        if (this.envelopeSeen === envelopeFields.length) {
+          for (const record of this.heldBack) this.addRecord(record);
+          this.heldBack = [];
+        }
+        this.valueDone();
+      });
+      return;
+    }
+
+    if (samePath(recordsPath, path)) {
+      this.foundRecords = true;
+      if (char === "[") {
+        this.stack.push({ kind: "records", path, key: null, empty: true });
+        this.expect = "value";
+      } else if (char === "{") {
+        // A single object at the records path is one record
+        this.startScan("container", true, (text) => {
+          this.addRecord(JSON.parse(text));
+          this.valueDone();
+        });
+      } else {
+        throw new RecordsPathError(recordsPathNotRecords(this.selection));
+      }
+      return;
+    }
+
+    const leadsToTarget = [
+      recordsPath,
+      ...envelopeFields.map((field) => field.path),
+    ].some((target) => target.length > path.length && isPrefix(path, target));
+    if (char === "{" && leadsToTarget) {
+      this.stack.push({ kind: "object", path, key: null, empty: true });
+      this.expect = "key";
+      return;
+    }
+
+    this.startScan(scanKind(char), false, () => this.valueDone());
+  }
+
+  private startScan(
+    kind: ValueScan["kind"],
+    capture: boolean,
+    onEnd: (text: string) => void,
+  ): void {
+    this.scan = { kind, capture, depth: 1, onEnd };
+    this.inString = kind === "string";
+    this.escaped = false;
+  }
+
+  private addRecord(record: unknown): void {
+    if (this.envelopeSeen < this.selection.envelopeFields.length) {
+      this.heldBack.push(record);
+    } else {
+      this.output.push(withEnvelope(record, this.envelope));
+    }
+  }
+
+  private closeFrame(): void {
+    this.stack.pop();
+    this.valueDone();
+  }
+
+  private valueDone(): void {
+    this.expect = this.stack.length === 0 ? "done" : "separator";
+  }
+}
+
+function scanKind(char: string): ValueScan["kind"] {
+  if (char === "{" || char === "[") return "container";
+  if (char === '"') return "string";
+  return "scalar";
+}
+
+function withEnvelope(record: unknown, envelope: JsonRecord): JsonRecord {
+  if (!isPlainObject(record) || Object.keys(envelope).length === 0) {
+    return record as JsonRecord;
+  }
+  return { ...record, ...envelope };
+}
+
+function lookup(document: unknown, path: string[]): unknown {
+  let value = document;
+  for (const key of path) {
+    if (!isPlainObject(value) || !(key in value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPrefix(prefix: string[], path: string[]): boolean {
+  return (
+    prefix.length <= path.length &&
+    prefix.every((key, index) => key === path[index])
+  );
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && isPrefix(a, b);
+}
+
+function recordsPathNotFound(selection: RecordSelection): string {
+  return `Records path "${selection.recordsPath.join(".")}" not found`;
+}
+
+function recordsPathNotRecords(selection: RecordSelection): string {
+  return `Records path "${selection.recordsPath.join(".")}" does not hold an array or object`;
+}
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t";
+}
@@ -0,0 +1,43 @@
+import { vol } from "memfs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { RejectWriter } from "./rejects.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+describe("RejectWriter", () => {
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should replace an earlier reject file with one line per rejection", async () => {
+    vol.fromJSON({ "/test/rejects.ndjson": "stale\n" });
+
+    const rejects = await RejectWriter.open({ file: "/test/rejects.ndjson" });
+    await rejects.reject({
+      file: "/test/a.json",
+      index: 4,
+      reason: "bad",
+      record: { id: "x" },
+    });
+    await rejects.reject({ file: "/test/b.jsonl", index: 0, reason: "worse" });
+    await rejects.close();
+
+    expect(rejects.rejectedCount).toBe(2);
+    expect(vol.readFileSync("/test/rejects.ndjson", "utf-8")).toBe(
+      [
+        '{"file":"/test/a.json","index":4,"reason":"bad","record":{"id":"x"}}',
+        '{"file":"/test/b.jsonl","index":0,"reason":"worse"}',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should throw once more than max errors records are rejected", async () => {
+    const rejects = await RejectWriter.open({ maxErrors: 0 });
+
+    await expect(
+      rejects.reject({ file: "/test/a.json", index: 0, reason: "bad" }),
+    ).rejects.toThrow("Aborting after 1 rejected records (--max-errors 0)");
+  });
+});
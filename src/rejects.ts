@@ -0,0 +1,75 @@
+import * as fs from "fs/promises";
+import type { ValidationIssue } from "./validation.js";
+
+/**
+ * A record, or part of a file, that could not be written to the output.
+ */
+export interface RejectedRecord {
+  /** Input file the record came from */
+  file: string;
+  /** 0-based position of the record in the file */
+  index: number;
+  reason: string;
+  /** The record as read, when it could be parsed */
+  record?: unknown;
+  /** The raw text of a malformed NDJSON line */
+  line?: string;
+  /** Every validation issue of the record */
+  issues?: ValidationIssue[];
+}
+
+export interface RejectOptions {
+  /** NDJSON file that every rejected record is written to */
+  file?: string;
+  /** Rejections tolerated before the run is aborted */
+  maxErrors?: number;
+}
+
+/**
+ * Collects rejected records, writing each as one line of NDJSON to the reject
+ * file, and aborts the run once more than `maxErrors` records are rejected.
+ */
+export class RejectWriter {
+  private handle: fs.FileHandle | null = null;
+  private count = 0;
+
+  private constructor(private readonly options: RejectOptions) {}
+
+  /**
+   * Creates a writer, truncating the reject file so that it only lists the
+   * records rejected by this run.
+   */
+  static async open(options: RejectOptions): Promise<RejectWriter> {
+    const writer = new RejectWriter(options);
+    if (options.file) {
+      writer.handle = await fs.open(options.file, "w");
+    }
+    return writer;
+  }
+
+  /**
+   * Number of records rejected so far.
+   */
+  get rejectedCount(): number {
+    return this.count;
+  }
+
+  async reject(entry: RejectedRecord): Promise<void> {
+    this.count++;
+    if (this.handle) {
+      await this.handle.appendFile(`${JSON.stringify(entry)}\n`);
+    }
+
+    const { maxErrors } = this.options;
+    if (maxErrors !== undefined && this.count > maxErrors) {
+      throw new Error(
+        `Aborting after ${this.count} rejected records (--max-errors ${maxErrors})`,
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.handle?.close();
+    this.handle = null;
+  }
+}
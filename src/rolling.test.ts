@@ -0,0 +1,133 @@
+import { ParquetSchema, ParquetWriter } from "@dsnp/parquetjs";
+import { vol } from "memfs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  parseSize,
+  RollingWriter,
+} from "./rolling.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+vi.mock("@dsnp/parquetjs", () => ({
+  ParquetWriter: {
+    openFile: vi.fn(),
+  },
+  ParquetSchema: vi.fn(),
+}));
+
+/**
+ * Mocks `ParquetWriter.openFile` with writers that report 10 bytes written
+ * per row and write that many bytes to the file on close.
+ */
+function mockWriters(): Record<string, unknown[]> {
+  const rows: Record<string, unknown[]> = {};
+  vi.mocked(ParquetWriter.openFile).mockImplementation(
+    async (_schema, file) => {
+      const name = String(file);
+      rows[name] = [];
+      const offset = { valueOf: () => rows[name].length * 10 };
+      return {
+        envelopeWriter: { offset },
+        appendRow: vi.fn(async (row: unknown) => {
+          rows[name].push(row);
+        }),
+        close: vi.fn(async () => {
+          vol.writeFileSync(name, "x".repeat(rows[name].length * 10));
+        }),
+      } as unknown as ParquetWriter;
+    },
+  );
+  return rows;
+}
+
+describe("RollingWriter", () => {
+  const schema = new ParquetSchema({});
+
+  beforeEach(() => {
+    vol.reset();
+    vol.mkdirSync("/out", { recursive: true });
+    vi.clearAllMocks();
+  });
+
+  it("should start a new file after the row limit and write a manifest", async () => {
+    const rows = mockWriters();
+    const writer = new RollingWriter(schema, "/out/output.parquet", {
+      maxRows: 2,
+      template: DEFAULT_FILE_NAME_TEMPLATE,
+    });
+
+    for (let id = 1; id <= 5; id++) {
+      await writer.appendRow({ id });
+    }
+    await writer.close();
+
+    expect(rows).toEqual({
+      "/out/output-00001.parquet": [{ id: 1 }, { id: 2 }],
+      "/out/output-00002.parquet": [{ id: 3 }, { id: 4 }],
+      "/out/output-00003.parquet": [{ id: 5 }],
+    });
+    expect(writer.manifestPath).toBe("/out/output.manifest.json");
+    expect(
+      JSON.parse(
+        vol.readFileSync("/out/output.manifest.json", "utf-8") as string,
+      ),
+    ).toEqual({
+      files: [
+        { file: "output-00001.parquet", rows: 2, bytes: 20 },
+        { file: "output-00002.parquet", rows: 2, bytes: 20 },
+        { file: "output-00003.parquet", rows: 1, bytes: 10 },
+      ],
+      totalRows: 5,
+      totalBytes: 50,
+    });
+  });
+
+  it("should start a new file once the byte limit is reached", async () => {
+    const rows = mockWriters();
+    const writer = new RollingWriter(schema, "/out/events.parquet", {
+      maxBytes: 25,
+      template: "{name}_part{index}.parquet",
+    });
+
+    for (let id = 1; id <= 4; id++) {
+      await writer.appendRow({ id });
+    }
+    await writer.close();
+
+    expect(Object.keys(rows)).toEqual([
+      "/out/events_part00001.parquet",
+      "/out/events_part00002.parquet",
+    ]);
+    expect(writer.files.map((entry) => entry.rows)).toEqual([3, 1]);
+  });
+
+  it("should not leave an empty file when the last file ends on the limit", async () => {
+    const rows = mockWriters();
+    const writer = new RollingWriter(schema, "/out/output.parquet", {
+      maxRows: 1,
+      template: DEFAULT_FILE_NAME_TEMPLATE,
+    });
+
+    await writer.appendRow({ id: 1 });
+    await writer.close();
+
+    expect(Object.keys(rows)).toEqual(["/out/output-00001.parquet"]);
+  });
+});
+
+describe("parseSize", () => {
+  it("should parse byte counts and binary units", () => {
+    expect(parseSize("1048576")).toBe(1048576);
+    expect(parseSize("512KB")).toBe(512 * 1024);
+    expect(parseSize("64mb")).toBe(64 * 1024 ** 2);
+    expect(parseSize("1.5 GB")).toBe(1.5 * 1024 ** 3);
+  });
+
+  it("should reject invalid sizes", () => {
+    expect(parseSize("")).toBeNull();
+    expect(parseSize("0")).toBeNull();
+    expect(parseSize("10XB")).toBeNull();
+    expect(parseSize("-5MB")).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  type ParquetSchema,
+  ParquetWriter,
+  type WriterOptions,
+} from "@dsnp/parquetjs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { JsonRecord } from "./index.js";
+import type { RecordWriter } from "./partition.js";
+
+export interface RollingOptions {
+  /** Rows written to a file before the next one is started */
+  maxRows?: number;
+  /** Bytes written to a file before the next one is started */
+  maxBytes?: number;
+  /** File name with `{name}` and `{index}` placeholders */
+  template: string;
+  /** Row group and page settings for every output file */
+  writerOptions?: WriterOptions;
+}
+
+/**
+ * A file written by a `RollingWriter`, as listed in the manifest.
+ */
+export interface ManifestEntry {
+  file: string;
+  rows: number;
+  bytes: number;
+}
+
+export const DEFAULT_FILE_NAME_TEMPLATE = "{name}-{index}.parquet";
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+/**
+ * Splits output across numbered files next to the output path, e.g.
+ * `output-00001.parquet`, `output-00002.parquet`, starting the next file once
+ * the current one reaches the row or byte limit. On close, a manifest listing
+ * every file with its row count and byte size is written as
+ * `<name>.manifest.json`.
+ *
+ * File sizes only grow as row groups are flushed, so a file can exceed the
+ * byte limit by up to one row group.
+ */
+export class RollingWriter implements RecordWriter {
+  private readonly directory: string;
+  private readonly name: string;
+  private current: ParquetWriter | null = null;
+  private currentFile = "";
+  private currentRows = 0;
+  private entries: ManifestEntry[] = [];
+
+  constructor(
+    private readonly schema: ParquetSchema,
+    output: string,
+    private readonly options: RollingOptions,
+  ) {
+    this.directory = path.dirname(output);
+    this.name = path.basename(output, path.extname(output));
+  }
+
+  /**
+   * Files completed so far.
+   */
+  get files(): ManifestEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Path of the manifest written on close.
+   */
+  get manifestPath(): string {
+    return path.join(this.directory, `${this.name}.manifest.json`);
+  }
+
+  async appendRow(record: JsonRecord): Promise<void> {
+    if (!this.current) {
+      await this.openNext();
+    }
+    const writer = this.current as ParquetWriter;
+    await writer.appendRow(record);
+    this.currentRows++;
+
+    const { maxRows, maxBytes } = this.options;
+    if (
+      (maxRows !== undefined && this.currentRows >= maxRows) ||
+      (maxBytes !== undefined && bytesWritten(writer) >= maxBytes)
+    ) {
+      await this.closeCurrent();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.closeCurrent();
+
+    const manifest = {
+      files: this.entries,
+      totalRows: this.entries.reduce((total, entry) => total + entry.rows, 0),
+      totalBytes: this.entries.reduce((total, entry) => total + entry.bytes, 0),
+    };
+    await fs.writeFile(
+      this.manifestPath,
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    );
+  }
+
+  private async openNext(): Promise<void> {
+    const index = String(this.entries.length + 1).padStart(5, "0");
+    const file = this.options.template
+      .replaceAll("{name}", this.name)
+      .replaceAll("{index}", index);
+    this.currentFile = file;
+    this.currentRows = 0;
+    this.current = await ParquetWriter.openFile(
+      this.schema,
+      path.join(this.directory, file),
+      this.options.writerOptions,
+    );
+  }
+
+  private async closeCurrent(): Promise<void> {
+    if (!this.current) return;
+    await this.current.close();
+    this.current = null;
+
+    const stat = await fs.stat(path.join(this.directory, this.currentFile));
+    this.entries.push({
+      file: this.currentFile,
+      rows: this.currentRows,
+      bytes: stat.size,
+    });
+  }
+}
+
+/**
+ * Parses a size such as `1048576`, `512KB`, `64MB` or `1.5GB` into bytes.
+ * Units are binary (1KB = 1024 bytes) and case-insensitive.
+ */
+export function parseSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([KMGT]?B)?$/i.exec(value.trim());
+  if (!match) return null;
+  const bytes = Math.floor(
+    Number(match[1]) * SIZE_UNITS[(match[2] ?? "B").toUpperCase()],
+  );
+  return bytes > 0 ? bytes : null;
+}
+
+function bytesWritten(writer: ParquetWriter): number {
+  return Number(writer.envelopeWriter?.offset.valueOf() ?? 0);
+}
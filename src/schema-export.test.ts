@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DISTINCT_LIMIT,
+  FieldStatsCollector,
+  formatSchema,
+} from "./schema-export.js";
+
+describe("FieldStatsCollector", () => {
+  it("should count nulls and value types and keep the first sample", () => {
+    const collector = new FieldStatsCollector();
+    collector.observe({ id: 1, score: null, tags: ["a"] });
+    collector.observe({ id: 2.5, score: "n/a" });
+    collector.observe({ id: "3", tags: { b: 1 } });
+
+    expect(collector.recordCount).toBe(3);
+    expect(collector.stats(["id", "score", "tags", "never"])).toEqual({
+      id: {
+        nullCount: 0,
+        types: { integer: 1, number: 1, string: 1 },
+        sample: 1,
+        distinctCount: 3,
+        min: 1,
+        max: 2.5,
+        averageLength: 1,
+      },
+      score: {
+        nullCount: 2,
+        types: { string: 1 },
+        sample: "n/a",
+        distinctCount: 1,
+        averageLength: 3,
+      },
+      tags: { nullCount: 1, types: { array: 1, object: 1 }, sample: ["a"] },
+      never: { nullCount: 3, types: {} },
+    });
+  });
+
+  it("should stop counting distinct values at the limit", () => {
+    const collector = new FieldStatsCollector();
+    for (let id = 0; id <= DISTINCT_LIMIT; id++) {
+      collector.observe({ id, flag: id % 2 === 0 });
+    }
+
+    const stats = collector.stats(["id", "flag"]);
+    expect(stats.id).toMatchObject({
+      distinctCount: DISTINCT_LIMIT,
+      distinctCountCapped: true,
+      min: 0,
+      max: DISTINCT_LIMIT,
+    });
+    expect(stats.flag.distinctCount).toBe(2);
+    expect(stats.flag.distinctCountCapped).toBeUndefined();
+  });
+});
+
+describe("formatSchema", () => {
+  const fields = {
+    id: {
+      type: "INT64" as const,
+      optional: false,
+      compression: "GZIP" as const,
+    },
+    active: {
+      type: "BOOLEAN" as const,
+      optional: true,
+      compression: "UNCOMPRESSED" as const,
+      encoding: "RLE" as const,
+      typeLength: 1,
+    },
+    address: {
+      optional: true,
+      fields: {
+        city: { type: "UTF8" as const, optional: true },
+      },
+    },
+    tags: { type: "UTF8" as const, repeated: true },
+  };
+  const stats = {
+    id: { nullCount: 0, types: { integer: 2 }, sample: 1 },
+    address: { nullCount: 2, types: {} },
+  };
+
+  it("should export a JSON schema file with stats", () => {
+    expect(JSON.parse(formatSchema("json", fields, stats, "users"))).toEqual({
+      mode: "replace",
+      fields: {
+        id: {
+          type: "INT64",
+          optional: false,
+          compression: "GZIP",
+          stats: { nullCount: 0, types: { integer: 2 }, sample: 1 },
+        },
+        active: {
+          type: "BOOLEAN",
+          optional: true,
+          compression: "UNCOMPRESSED",
+          encoding: "RLE",
+        },
+        address: {
+          fields: { city: { type: "UTF8", optional: true } },
+          optional: true,
+          stats: { nullCount: 2, types: {} },
+        },
+        tags: { type: "UTF8", repeated: true },
+      },
+    });
+  });
+
+  it("should export a DuckDB CREATE TABLE statement", () => {
+    expect(formatSchema("duckdb", fields, stats, "users")).toBe(
+      [
+        'CREATE TABLE "users" (',
+        '  "id" BIGINT NOT NULL, -- compression: GZIP, nulls: 0, types: integer (2), sample: 1',
+        '  "active" BOOLEAN, -- compression: UNCOMPRESSED, encoding: RLE',
+        '  "address" STRUCT("city" VARCHAR), -- nulls: 2, types: none',
+        '  "tags" VARCHAR[]',
+        ");",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should export a Hive CREATE TABLE statement", () => {
+    expect(formatSchema("hive", fields, {}, "users")).toBe(
+      [
+        "CREATE TABLE `users` (",
+        "  `id` BIGINT NOT NULL, -- compression: GZIP",
+        "  `active` BOOLEAN, -- compression: UNCOMPRESSED, encoding: RLE",
+        "  `address` STRUCT<`city`:STRING>,",
+        "  `tags` ARRAY<STRING>",
+        ");",
+        "",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import type { FieldDefinition } from "@dsnp/parquetjs";
+import type { JsonRecord, SchemaExportFormat } from "./index.js";
+
+/**
+ * Statistics gathered for a top-level field while scanning the input.
+ */
+export interface FieldStats {
+  /** Records where the field was null or missing */
+  nullCount: number;
+  /** Number of non-null values observed per JSON value type */
+  types: Record<string, number>;
+  /** First non-null value observed */
+  sample?: unknown;
+  /** Distinct scalar values, counted up to `DISTINCT_LIMIT` */
+  distinctCount?: number;
+  /** Set when there were more distinct values than `DISTINCT_LIMIT` */
+  distinctCountCapped?: true;
+  /** Smallest and largest numeric values */
+  min?: number;
+  max?: number;
+  /** Average length of string values */
+  averageLength?: number;
+}
+
+/**
+ * Distinct values are tracked per field up to this many to bound memory.
+ */
+export const DISTINCT_LIMIT = 1000;
+
+interface FieldObservations {
+  types: Record<string, number>;
+  sample?: unknown;
+  distinct: Set<string>;
+  distinctCapped: boolean;
+  min?: number;
+  max?: number;
+  stringCount: number;
+  stringLength: number;
+}
+
+/**
+ * Gathers per-field statistics from a stream of records.
+ */
+export class FieldStatsCollector {
+  private fields = new Map<string, FieldObservations>();
+  private records = 0;
+
+  observe(record: JsonRecord): void {
+    this.records++;
+    for (const [key, value] of Object.entries(record)) {
+      if (value === null || value === undefined) continue;
+
+      let field = this.fields.get(key);
+      if (!field) {
+        field = createObservations();
+        this.fields.set(key, field);
+      }
+      const type = jsonType(value);
+      field.types[type] = (field.types[type] ?? 0) + 1;
+      if (!("sample" in field)) field.sample = value;
+
+      if (typeof value === "object") continue;
+      const distinctKey = `${type}:${String(value)}`;
+      if (field.distinct.size < DISTINCT_LIMIT) {
+        field.distinct.add(distinctKey);
+      } else if (!field.distinct.has(distinctKey)) {
+        field.distinctCapped = true;
+      }
+      if (typeof value === "number") {
+        field.min = Math.min(field.min ?? value, value);
+        field.max = Math.max(field.max ?? value, value);
+      } else if (typeof value === "string") {
+        field.stringCount++;
+        field.stringLength += value.length;
+      }
+    }
+  }
+
+  /**
+   * Number of records observed so far.
+   */
+  get recordCount(): number {
+    return this.records;
+  }
+
+  /**
+   * Returns the statistics for the given field names. Fields that were never
+   * observed count every record as null.
+   */
+  stats(names: string[]): Record<string, FieldStats> {
+    const stats: Record<string, FieldStats> = {};
+    for (const name of names) {
+      const field = this.fields.get(name) ?? createObservations();
+      const observed = Object.values(field.types).reduce((a, b) => a + b, 0);
+      stats[name] = {
+        nullCount: this.records - observed,
+        types: { ...field.types },
+        ...("sample" in field ? { sample: field.sample } : {}),
+        ...(field.distinct.size > 0
+          ? { distinctCount: field.distinct.size }
+          : {}),
+        ...(field.distinctCapped ? { distinctCountCapped: true as const } : {}),
+        ...(field.min !== undefined ? { min: field.min, max: field.max } : {}),
+        ...(field.stringCount > 0
+          ? {
+              averageLength:
+                Math.round((field.stringLength / field.stringCount) * 10) / 10,
+            }
+          : {}),
+      };
+    }
+    return stats;
+  }
+}
+
+function createObservations(): FieldObservations {
+  return {
+    types: {},
+    distinct: new Set(),
+    distinctCapped: false,
+    stringCount: 0,
+    stringLength: 0,
+  };
+}
+
+/**
+ * Renders Parquet field definitions and their statistics in the requested
+ * format: `json` produces a schema file that `--schema` accepts, `duckdb`
+ * and `hive` produce a `CREATE TABLE` statement in that SQL dialect.
+ */
+export function formatSchema(
+  format: SchemaExportFormat,
+  fields: Record<string, FieldDefinition>,
+  stats: Record<string, FieldStats>,
+  tableName: string,
+): string {
+  if (format === "json") {
+    const document = { mode: "replace", fields: exportFields(fields, stats) };
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+
+  const quote = format === "hive" ? quoteHive : quoteDuckDb;
+  const entries = Object.entries(fields);
+  const columns = entries.map(([name, definition], index) => {
+    const separator = index < entries.length - 1 ? "," : "";
+    const notNull = definition.optional === false ? " NOT NULL" : "";
+    const details = [
+      ...describeColumnSettings(definition),
+      ...(stats[name] ? [describeStats(stats[name])] : []),
+    ];
+    const comment = details.length > 0 ? ` -- ${details.join(", ")}` : "";
+    return `  ${quote(name)} ${sqlType(definition, format)}${notNull}${separator}${comment}`;
+  });
+  return `CREATE TABLE ${quote(tableName)} (\n${columns.join("\n")}\n);\n`;
+}
+
+function exportFields(
+  fields: Record<string, FieldDefinition>,
+  stats: Record<string, FieldStats>,
+): Record<string, unknown> {
+  const exported: Record<string, unknown> = {};
+  for (const [name, definition] of Object.entries(fields)) {
+    exported[name] = {
+      ...(definition.fields
+        ? { fields: exportFields(definition.fields, {}) }
+        : { type: definition.type }),
+      ...(definition.repeated
+        ? { repeated: true }
+        : { optional: definition.optional !== false }),
+      ...(definition.compression
+        ? { compression: definition.compression }
+        : {}),
+      ...(definition.encoding && definition.encoding !== "PLAIN"
+        ? { encoding: definition.encoding }
+        : {}),
+      ...(stats[name] ? { stats: stats[name] } : {}),
+    };
+  }
+  return exported;
+}
+
+const SQL_TYPES: Record<string, { duckdb: string; hive: string }> = {
+  UTF8: { duckdb: "VARCHAR", hive: "STRING" },
+  BOOLEAN: { duckdb: "BOOLEAN", hive: "BOOLEAN" },
+  INT32: { duckdb: "INTEGER", hive: "INT" },
+  INT64: { duckdb: "BIGINT", hive: "BIGINT" },
+  FLOAT: { duckdb: "FLOAT", hive: "FLOAT" },
+  DOUBLE: { duckdb: "DOUBLE", hive: "DOUBLE" },
+  DATE: { duckdb: "DATE", hive: "DATE" },
+  TIMESTAMP_MILLIS: { duckdb: "TIMESTAMP", hive: "TIMESTAMP" },
+  TIMESTAMP_MICROS: { duckdb: "TIMESTAMP", hive: "TIMESTAMP" },
+};
+
+function sqlType(
+  definition: FieldDefinition,
+  dialect: "duckdb" | "hive",
+): string {
+  let type: string;
+  if (definition.fields) {
+    const members = Object.entries(definition.fields).map(([name, member]) =>
+      dialect === "hive"
+        ? `${quoteHive(name)}:${sqlType(member, dialect)}`
+        : `${quoteDuckDb(name)} ${sqlType(member, dialect)}`,
+    );
+    type =
+      dialect === "hive"
+        ? `STRUCT<${members.join(", ")}>`
+        : `STRUCT(${members.join(", ")})`;
+  } else {
+    type = SQL_TYPES[definition.type ?? "UTF8"]?.[dialect] ?? "VARCHAR";
+  }
+
+  if (!definition.repeated) return type;
+  return dialect === "hive" ? `ARRAY<${type}>` : `${type}[]`;
+}
+
+function describeStats(stats: FieldStats): string {
+  const types = Object.entries(stats.types)
+    .map(([type, count]) => `${type} (${count})`)
+    .join(", ");
+  const parts = [`nulls: ${stats.nullCount}`, `types: ${types || "none"}`];
+  if (stats.distinctCount !== undefined) {
+    parts.push(
+      `distinct: ${stats.distinctCount}${stats.distinctCountCapped ? "+" : ""}`,
+    );
+  }
+  if ("sample" in stats) {
+    // Keep comments on one line and reasonably short
+    let sample = JSON.stringify(stats.sample).replace(/\s+/g, " ");
+    if (sample.length > 60) sample = `${sample.slice(0, 57)}...`;
+    parts.push(`sample: ${sample}`);
+  }
+  return parts.join(", ");
+}
+
+function describeColumnSettings(definition: FieldDefinition): string[] {
+  const settings: string[] = [];
+  if (definition.compression) {
+    settings.push(`compression: ${definition.compression}`);
+  }
+  if (definition.encoding && definition.encoding !== "PLAIN") {
+    settings.push(`encoding: ${definition.encoding}`);
+  }
+  return settings;
+}
+
+function quoteDuckDb(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteHive(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+function jsonType(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
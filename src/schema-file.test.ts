@@ -0,0 +1,144 @@
+import { vol } from "memfs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { loadSchemaFile, parseSchemaDocument } from "./schema-file.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+describe("parseSchemaDocument", () => {
+  it("should normalize field definitions", () => {
+    const schema = parseSchemaDocument(
+      {
+        fields: {
+          id: { type: "int64", optional: false, encoding: "RLE" },
+          name: "utf8",
+          active: { type: "BOOLEAN", encoding: "rle" },
+          body: { type: "UTF8", compression: "brotli" },
+          address: { fields: { city: "UTF8" } },
+          tags: { type: "UTF8", repeated: true },
+        },
+      },
+      "SNAPPY",
+    );
+
+    expect(schema).toEqual({
+      mode: "replace",
+      fields: {
+        id: {
+          type: "INT64",
+          compression: "SNAPPY",
+          optional: false,
+          encoding: "RLE",
+          typeLength: 31,
+        },
+        name: { type: "UTF8", compression: "SNAPPY", optional: true },
+        active: {
+          type: "BOOLEAN",
+          compression: "SNAPPY",
+          optional: true,
+          encoding: "RLE",
+          typeLength: 1,
+        },
+        body: { type: "UTF8", compression: "BROTLI", optional: true },
+        address: {
+          optional: true,
+          fields: {
+            city: { type: "UTF8", compression: "SNAPPY", optional: true },
+          },
+        },
+        tags: { type: "UTF8", compression: "SNAPPY", repeated: true },
+      },
+    });
+  });
+
+  it("should accept the override mode", () => {
+    const schema = parseSchemaDocument(
+      { mode: "override", fields: { id: "INT64" } },
+      "UNCOMPRESSED",
+    );
+    expect(schema.mode).toBe("override");
+  });
+
+  it("should reject invalid documents with a clear message", () => {
+    expect(() => parseSchemaDocument([], "UNCOMPRESSED")).toThrow(
+      'Invalid schema: expected an object with "fields"',
+    );
+    expect(() =>
+      parseSchemaDocument({ mode: "merge", fields: { id: "INT64" } }, "GZIP"),
+    ).toThrow('mode must be "replace" or "override"');
+    expect(() =>
+      parseSchemaDocument({ fields: { id: "NUMBER" } }, "GZIP"),
+    ).toThrow('field "id" has unsupported type "NUMBER"');
+    expect(() =>
+      parseSchemaDocument(
+        { fields: { id: { type: "INT64", compression: "zip" } } },
+        "GZIP",
+      ),
+    ).toThrow('field "id" has unsupported compression "zip"');
+    expect(() =>
+      parseSchemaDocument(
+        { fields: { name: { type: "UTF8", encoding: "RLE" } } },
+        "GZIP",
+      ),
+    ).toThrow('field "name" cannot use RLE encoding with type UTF8');
+    expect(() =>
+      parseSchemaDocument(
+        { fields: { name: { type: "UTF8", encoding: "RLE_DICTIONARY" } } },
+        "GZIP",
+      ),
+    ).toThrow('field "name" has unsupported encoding "RLE_DICTIONARY"');
+    expect(() => parseSchemaDocument({ fields: {} }, "GZIP")).toThrow(
+      "no fields declared",
+    );
+  });
+});
+
+describe("loadSchemaFile", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should load YAML schema files", async () => {
+    vol.fromJSON({
+      "/test/schema.yaml": [
+        "mode: override",
+        "fields:",
+        "  score:",
+        "    type: DOUBLE",
+        "    compression: gzip",
+      ].join("\n"),
+    });
+
+    expect(await loadSchemaFile("/test/schema.yaml", "UNCOMPRESSED")).toEqual({
+      mode: "override",
+      fields: {
+        score: { type: "DOUBLE", compression: "GZIP", optional: true },
+      },
+    });
+  });
+
+  it("should load JSON schema files", async () => {
+    vol.fromJSON({
+      "/test/schema.json": JSON.stringify({ fields: { id: "INT64" } }),
+    });
+
+    expect(await loadSchemaFile("/test/schema.json", "UNCOMPRESSED")).toEqual({
+      mode: "replace",
+      fields: {
+        id: { type: "INT64", compression: "UNCOMPRESSED", optional: true },
+      },
+    });
+  });
+
+  it("should report unparsable schema files", async () => {
+    vol.fromJSON({ "/test/schema.json": "{" });
+
+    await expect(
+      loadSchemaFile("/test/schema.json", "UNCOMPRESSED"),
+    ).rejects.toThrow("Failed to parse schema file /test/schema.json");
+  });
+});
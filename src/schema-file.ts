@@ -0,0 +1,217 @@
+import type {
+  FieldDefinition,
+  ParquetCodec,
+  ParquetType,
+} from "@dsnp/parquetjs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import type { CompressionType } from "./index.js";
+
+/**
+ * How a user-supplied schema combines with inference: `replace` uses only
+ * the declared fields, `override` pins the declared fields and infers the rest.
+ */
+export type SchemaFileMode = "replace" | "override";
+
+/**
+ * A parsed and validated schema file.
+ */
+export interface SchemaFile {
+  mode: SchemaFileMode;
+  fields: Record<string, FieldDefinition>;
+}
+
+const SUPPORTED_TYPES: ParquetType[] = [
+  "UTF8",
+  "BOOLEAN",
+  "INT32",
+  "INT64",
+  "FLOAT",
+  "DOUBLE",
+  "DATE",
+  "TIMESTAMP_MILLIS",
+  "TIMESTAMP_MICROS",
+];
+
+const SUPPORTED_COMPRESSIONS: CompressionType[] = [
+  "UNCOMPRESSED",
+  "GZIP",
+  "SNAPPY",
+  "BROTLI",
+];
+
+const SUPPORTED_ENCODINGS: ParquetCodec[] = ["PLAIN", "RLE"];
+
+// RLE needs an explicit bit width and only applies to these types. The
+// encoder works on 32-bit integers, so integer columns hold 0 to 2^31 - 1.
+const RLE_BIT_WIDTHS: Partial<Record<ParquetType, number>> = {
+  BOOLEAN: 1,
+  INT32: 31,
+  INT64: 31,
+};
+
+/**
+ * Loads a JSON or YAML schema file (chosen by the `.yaml`/`.yml` extension).
+ *
+ * The file declares `fields` keyed by name, each with a Parquet `type` and
+ * optional `optional`, `compression` and `encoding` settings, or `fields` /
+ * `repeated` for nested columns. An optional top-level `mode` selects
+ * `replace` (default) or `override`. Fields without a compression use the
+ * given default.
+ */
+export async function loadSchemaFile(
+  file: string,
+  defaultCompression: CompressionType,
+): Promise<SchemaFile> {
+  const content = await fs.readFile(file, "utf-8");
+  const extension = path.extname(file).toLowerCase();
+
+  let document: unknown;
+  try {
+    document =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse schema file ${file}: ${error}`);
+  }
+
+  return parseSchemaDocument(document, defaultCompression, file);
+}
+
+/**
+ * Validates a schema document and normalizes it into Parquet field
+ * definitions. Type, compression and encoding names are case-insensitive.
+ */
+export function parseSchemaDocument(
+  document: unknown,
+  defaultCompression: CompressionType,
+  source = "schema",
+): SchemaFile {
+  if (!isObject(document) || !isObject(document.fields)) {
+    throw new Error(`Invalid ${source}: expected an object with "fields"`);
+  }
+
+  const mode = document.mode ?? "replace";
+  if (mode !== "replace" && mode !== "override") {
+    throw new Error(
+      `Invalid ${source}: mode must be "replace" or "override", got ${JSON.stringify(mode)}`,
+    );
+  }
+
+  const fields = parseFields(document.fields, defaultCompression, source, "");
+  if (Object.keys(fields).length === 0) {
+    throw new Error(`Invalid ${source}: no fields declared`);
+  }
+
+  return { mode, fields };
+}
+
+function parseFields(
+  fields: Record<string, unknown>,
+  defaultCompression: CompressionType,
+  source: string,
+  prefix: string,
+): Record<string, FieldDefinition> {
+  const definitions: Record<string, FieldDefinition> = {};
+
+  for (const [name, spec] of Object.entries(fields)) {
+    const fieldPath = `${prefix}${name}`;
+    const fail = (message: string): never => {
+      throw new Error(`Invalid ${source}: field "${fieldPath}" ${message}`);
+    };
+
+    // Allow the shorthand `name: TYPE`
+    const field = typeof spec === "string" ? { type: spec } : spec;
+    if (!isObject(field)) {
+      return fail("must be a type name or an object");
+    }
+
+    const repetition: FieldDefinition = field.repeated
+      ? { repeated: true }
+      : { optional: field.optional !== false };
+
+    if (field.fields !== undefined) {
+      if (!isObject(field.fields)) return fail('has invalid "fields"');
+      definitions[name] = {
+        ...repetition,
+        fields: parseFields(
+          field.fields,
+          defaultCompression,
+          source,
+          `${fieldPath}.`,
+        ),
+      };
+      continue;
+    }
+
+    const type = String(field.type ?? "").toUpperCase() as ParquetType;
+    if (!SUPPORTED_TYPES.includes(type)) {
+      return fail(
+        `has unsupported type ${JSON.stringify(field.type)}. Supported types: ${SUPPORTED_TYPES.join(", ")}`,
+      );
+    }
+
+    definitions[name] = {
+      type,
+      ...repetition,
+      ...parseColumnSettings(field, type, fail),
+    };
+    definitions[name].compression ??= defaultCompression;
+  }
+
+  return definitions;
+}
+
+/**
+ * Parses the `compression` and `encoding` settings of a column. Names are
+ * case-insensitive; RLE also sets the bit width the writer needs. Calls
+ * `fail` with a description of an invalid setting.
+ */
+export function parseColumnSettings(
+  settings: Record<string, unknown>,
+  type: ParquetType,
+  fail: (message: string) => never,
+): Pick<FieldDefinition, "compression" | "encoding" | "typeLength"> {
+  const parsed: Pick<
+    FieldDefinition,
+    "compression" | "encoding" | "typeLength"
+  > = {};
+
+  if (settings.compression !== undefined) {
+    const compression = String(
+      settings.compression,
+    ).toUpperCase() as CompressionType;
+    if (!SUPPORTED_COMPRESSIONS.includes(compression)) {
+      fail(
+        `has unsupported compression ${JSON.stringify(settings.compression)}. Supported compressions: ${SUPPORTED_COMPRESSIONS.join(", ")}`,
+      );
+    }
+    parsed.compression = compression;
+  }
+
+  if (settings.encoding !== undefined) {
+    const encoding = String(settings.encoding).toUpperCase() as ParquetCodec;
+    if (!SUPPORTED_ENCODINGS.includes(encoding)) {
+      // Dictionary encodings can be read but not written by parquetjs
+      fail(
+        `has unsupported encoding ${JSON.stringify(settings.encoding)}. Supported encodings: ${SUPPORTED_ENCODINGS.join(", ")}`,
+      );
+    }
+    if (encoding === "RLE") {
+      const bitWidth = RLE_BIT_WIDTHS[type];
+      if (bitWidth === undefined) {
+        fail(`cannot use RLE encoding with type ${type}`);
+      }
+      parsed.typeLength = bitWidth;
+    }
+    parsed.encoding = encoding;
+  }
+
+  return parsed;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+
+import { type InferenceOptions, SchemaInferrer } from "./schema.js";
+
+/**
+ * Creates an inferrer with JSON-string nesting and temporal detection off,
+ * overridden by the given options.
+ */
+function createInferrer(options: Partial<InferenceOptions>): SchemaInferrer {
+  return new SchemaInferrer({
+    typeConflict: "string",
+    nested: "json",
+    temporalFormats: [],
+    ...options,
+  });
+}
+
+describe("SchemaInferrer", () => {
+  it("should infer types from every value, not only the first", () => {
+    const inferrer = createInferrer({
+      typeConflict: "string",
+      nested: "json",
+    });
+    inferrer.observe({ id: 1, score: null, tags: ["a"] }, "/a.json", 0);
+    inferrer.observe({ id: 2, score: 85, tags: { b: 1 } }, "/a.json", 1);
+    inferrer.observe({ id: 3, score: 92.5, note: null }, "/b.json", 0);
+
+    const { fields, widenings } = inferrer.build("UNCOMPRESSED");
+
+    expect(fields).toEqual({
+      id: { type: "INT64", compression: "UNCOMPRESSED", optional: true },
+      score: { type: "DOUBLE", compression: "UNCOMPRESSED", optional: true },
+      tags: { type: "UTF8", compression: "UNCOMPRESSED", optional: true },
+      note: { type: "UTF8", compression: "UNCOMPRESSED", optional: true },
+    });
+    expect(widenings).toEqual([
+      {
+        field: "score",
+        from: "INT64",
+        to: "DOUBLE",
+        reason: "non-integer value 92.5 in /b.json at index 0",
+      },
+    ]);
+  });
+
+  it("should keep DOUBLE when integers follow a non-integer value", () => {
+    const inferrer = createInferrer({
+      typeConflict: "error",
+      nested: "json",
+    });
+    inferrer.observe({ value: 1.5 }, "/a.json", 0);
+    inferrer.observe({ value: 2 }, "/a.json", 1);
+
+    const { fields, widenings } = inferrer.build("GZIP");
+
+    expect(fields.value).toEqual({
+      type: "DOUBLE",
+      compression: "GZIP",
+      optional: true,
+    });
+    expect(widenings).toEqual([]);
+  });
+
+  it("should widen mixed types to UTF8 under the string policy", () => {
+    const inferrer = createInferrer({
+      typeConflict: "string",
+      nested: "json",
+    });
+    inferrer.observe({ value: 1 }, "/a.json", 0);
+    inferrer.observe({ value: 1.5 }, "/a.json", 1);
+    inferrer.observe({ value: "n/a" }, "/a.json", 2);
+    inferrer.observe({ value: true }, "/a.json", 3);
+
+    const { fields, widenings } = inferrer.build("UNCOMPRESSED");
+
+    expect(fields.value.type).toBe("UTF8");
+    expect(widenings).toEqual([
+      {
+        field: "value",
+        from: "INT64",
+        to: "DOUBLE",
+        reason: "non-integer value 1.5 in /a.json at index 1",
+      },
+      {
+        field: "value",
+        from: "DOUBLE",
+        to: "UTF8",
+        reason: "mixed DOUBLE and UTF8 values in /a.json at index 2",
+      },
+    ]);
+  });
+
+  it("should fail on mixed types under the error policy", () => {
+    const inferrer = createInferrer({
+      typeConflict: "error",
+      nested: "json",
+    });
+    inferrer.observe({ flag: true, id: 1 }, "/a.json", 0);
+    inferrer.observe({ flag: "yes", id: "x" }, "/b.json", 4);
+
+    expect(() => inferrer.build("UNCOMPRESSED")).toThrow(
+      'Type conflict for field "flag": BOOLEAN vs UTF8 in /b.json at index 4\n' +
+        'Type conflict for field "id": INT64 vs UTF8 in /b.json at index 4',
+    );
+  });
+
+  it("should treat objects and strings as compatible UTF8 values", () => {
+    const inferrer = createInferrer({
+      typeConflict: "error",
+      nested: "json",
+    });
+    inferrer.observe({ payload: "raw" }, "/a.json", 0);
+    inferrer.observe({ payload: { parsed: true } }, "/a.json", 1);
+
+    const { fields, widenings } = inferrer.build("UNCOMPRESSED");
+
+    expect(fields.payload.type).toBe("UTF8");
+    expect(widenings).toEqual([]);
+  });
+
+  describe("native nested mode", () => {
+    it("should infer groups for objects and repeated fields for arrays", () => {
+      const inferrer = createInferrer({
+        typeConflict: "string",
+        nested: "native",
+      });
+      inferrer.observe(
+        {
+          id: 1,
+          address: { city: "Tokyo", zip: null },
+          tags: [],
+          items: [{ sku: "a", qty: 1 }],
+        },
+        "/a.json",
+        0,
+      );
+      inferrer.observe(
+        {
+          id: 2,
+          address: { city: "Osaka", zip: "530" },
+          tags: ["x", "y"],
+          items: [{ sku: "b", qty: 2.5, note: "gift" }],
+          matrix: [[1, 2], [3]],
+          empty: [],
+        },
+        "/a.json",
+        1,
+      );
+
+      const { fields, widenings } = inferrer.build("SNAPPY");
+
+      expect(fields).toEqual({
+        id: { type: "INT64", compression: "SNAPPY", optional: true },
+        address: {
+          optional: true,
+          fields: {
+            city: { type: "UTF8", compression: "SNAPPY", optional: true },
+            zip: { type: "UTF8", compression: "SNAPPY", optional: true },
+          },
+        },
+        tags: { type: "UTF8", compression: "SNAPPY", repeated: true },
+        items: {
+          repeated: true,
+          fields: {
+            sku: { type: "UTF8", compression: "SNAPPY", optional: true },
+            qty: { type: "DOUBLE", compression: "SNAPPY", optional: true },
+            note: { type: "UTF8", compression: "SNAPPY", optional: true },
+          },
+        },
+        matrix: { type: "UTF8", compression: "SNAPPY", repeated: true },
+        empty: { type: "UTF8", compression: "SNAPPY", repeated: true },
+      });
+      expect(widenings).toEqual([
+        {
+          field: "items[].qty",
+          from: "INT64",
+          to: "DOUBLE",
+          reason: "non-integer value 2.5 in /a.json at index 1",
+        },
+      ]);
+    });
+
+    it("should fall back to UTF8 when objects mix with other types", () => {
+      const inferrer = createInferrer({
+        typeConflict: "string",
+        nested: "native",
+      });
+      inferrer.observe({ meta: { a: 1 }, empty: {} }, "/a.json", 0);
+      inferrer.observe({ meta: "none" }, "/a.json", 1);
+
+      const { fields, widenings } = inferrer.build("UNCOMPRESSED");
+
+      expect(fields).toEqual({
+        meta: { type: "UTF8", compression: "UNCOMPRESSED", optional: true },
+        empty: { type: "UTF8", compression: "UNCOMPRESSED", optional: true },
+      });
+      expect(widenings).toEqual([
+        {
+          field: "meta",
+          from: "GROUP",
+          to: "UTF8",
+          reason: "mixed object and UTF8 values in /a.json at index 1",
+        },
+      ]);
+    });
+  });
+
+  describe("temporal detection", () => {
+    it("should map temporal strings to DATE and timestamp types", () => {
+      const inferrer = createInferrer({
+        temporalFormats: ["iso-timestamp", "iso-date", "epoch-millis"],
+      });
+      inferrer.observe(
+        {
+          created_at: "2024-01-15T10:00:00Z",
+          precise_at: "2024-01-15T10:00:00.123456+09:00",
+          birthday: "1990-05-01",
+          seen_ms: "1705312800000",
+          name: "2024 report",
+        },
+        "/a.json",
+        0,
+      );
+
+      const { fields } = inferrer.build("UNCOMPRESSED");
+
+      expect(fields.created_at.type).toBe("TIMESTAMP_MILLIS");
+      expect(fields.precise_at.type).toBe("TIMESTAMP_MICROS");
+      expect(fields.birthday.type).toBe("DATE");
+      expect(fields.seen_ms.type).toBe("TIMESTAMP_MILLIS");
+      expect(fields.name.type).toBe("UTF8");
+    });
+
+    it("should widen dates to timestamps and temporal fields to UTF8", () => {
+      const inferrer = createInferrer({
+        typeConflict: "error",
+        temporalFormats: ["iso-timestamp", "iso-date"],
+      });
+      inferrer.observe(
+        { day: "2024-01-15", at: "2024-01-15T10:00:00Z" },
+        "/a.json",
+        0,
+      );
+      inferrer.observe(
+        { day: "2024-01-16T08:00:00Z", at: "n/a" },
+        "/a.json",
+        1,
+      );
+
+      const { fields, widenings } = inferrer.build("UNCOMPRESSED");
+
+      expect(fields.day.type).toBe("TIMESTAMP_MILLIS");
+      expect(fields.at.type).toBe("UTF8");
+      expect(widenings).toEqual([
+        {
+          field: "day",
+          from: "DATE",
+          to: "TIMESTAMP_MILLIS",
+          reason:
+            'TIMESTAMP_MILLIS value "2024-01-16T08:00:00Z" in /a.json at index 1',
+        },
+        {
+          field: "at",
+          from: "TIMESTAMP_MILLIS",
+          to: "UTF8",
+          reason:
+            'value "n/a" is not a recognised date or timestamp in /a.json at index 1',
+        },
+      ]);
+    });
+
+    it("should keep string fields as UTF8 when date-like values follow", () => {
+      const inferrer = createInferrer({ temporalFormats: ["iso-date"] });
+      inferrer.observe({ label: "first" }, "/a.json", 0);
+      inferrer.observe({ label: "2024-01-15" }, "/a.json", 1);
+
+      const { fields, widenings } = inferrer.build("UNCOMPRESSED");
+
+      expect(fields.label.type).toBe("UTF8");
+      expect(widenings).toEqual([]);
+    });
+  });
+});
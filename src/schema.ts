@@ -0,0 +1,310 @@
+import type { FieldDefinition, ParquetType } from "@dsnp/parquetjs";
+import type {
+  CompressionType,
+  JsonRecord,
+  NestedMode,
+  TemporalFormat,
+  TypeConflictPolicy,
+} from "./index.js";
+import { detectTemporalType } from "./temporal.js";
+
+/**
+ * Kind of value observed for a field. `JSON` covers objects and arrays stored
+ * as JSON strings; `GROUP` and `LIST` cover objects and arrays stored as
+ * native nested Parquet columns.
+ */
+type ValueKind =
+  | "UTF8"
+  | "INT64"
+  | "DOUBLE"
+  | "BOOLEAN"
+  | "DATE"
+  | "TIMESTAMP_MILLIS"
+  | "TIMESTAMP_MICROS"
+  | "JSON"
+  | "GROUP"
+  | "LIST";
+
+/**
+ * Options controlling how values are mapped to Parquet types.
+ */
+export interface InferenceOptions {
+  typeConflict: TypeConflictPolicy;
+  nested: NestedMode;
+  /** String formats recognised as dates and timestamps; empty disables it */
+  temporalFormats: TemporalFormat[];
+}
+
+/**
+ * A field whose type was widened after a later value did not fit the type
+ * inferred from earlier values. Nested fields are named by their path, e.g.
+ * `address.city` or `items[].sku`.
+ */
+export interface TypeWidening {
+  field: string;
+  from: ParquetType | "GROUP" | "LIST";
+  to: ParquetType;
+  reason: string;
+}
+
+/**
+ * Result of schema inference: the Parquet field definitions and a report of
+ * every widening applied along the way.
+ */
+export interface InferredSchema {
+  fields: Record<string, FieldDefinition>;
+  widenings: TypeWidening[];
+}
+
+interface FieldState {
+  kind: ValueKind | null;
+  widened: boolean;
+  children: Map<string, FieldState>;
+  element: FieldState | null;
+}
+
+/**
+ * Infers a Parquet schema from a stream of records in a single pass. Every
+ * value is inspected, and a field's type is widened when later values do not
+ * fit: INT64 widens to DOUBLE, dates widen to finer timestamps, temporal
+ * strings widen to UTF8 once a non-matching string is seen, and any other mix
+ * is resolved according to the type conflict policy.
+ */
+export class SchemaInferrer {
+  private fields = new Map<string, FieldState>();
+  private widenings: TypeWidening[] = [];
+  private conflicts: string[] = [];
+
+  constructor(private readonly options: InferenceOptions) {}
+
+  /**
+   * Folds a record's values into the inferred field types.
+   */
+  observe(record: JsonRecord, file: string, index: number): void {
+    const location = `${file} at index ${index}`;
+    this.observeFields(this.fields, record, "", location);
+  }
+
+  /**
+   * Number of distinct top-level field names observed so far.
+   */
+  get fieldCount(): number {
+    return this.fields.size;
+  }
+
+  /**
+   * Builds the Parquet field definitions. Fields whose values were all null
+   * default to UTF8.
+   */
+  build(compression: CompressionType): InferredSchema {
+    if (this.conflicts.length > 0) {
+      throw new Error(this.conflicts.join("\n"));
+    }
+
+    return {
+      fields: buildFields(this.fields, compression),
+      widenings: [...this.widenings],
+    };
+  }
+
+  private observeFields(
+    fields: Map<string, FieldState>,
+    record: JsonRecord,
+    prefix: string,
+    location: string,
+  ): void {
+    for (const [key, value] of Object.entries(record)) {
+      let state = fields.get(key);
+      if (!state) {
+        state = createFieldState();
+        fields.set(key, state);
+      }
+      this.observeValue(state, value, `${prefix}${key}`, location, false);
+    }
+  }
+
+  private observeValue(
+    state: FieldState,
+    value: unknown,
+    path: string,
+    location: string,
+    inList: boolean,
+  ): void {
+    const kind = this.valueKind(value, inList);
+    if (kind === null) return;
+
+    if (state.kind === null) {
+      state.kind = kind;
+    } else if (state.kind !== kind) {
+      this.resolveConflict(state, kind, value, path, location);
+    }
+
+    // Nested values keep being folded in until the field falls back to UTF8
+    if (state.kind === "GROUP") {
+      this.observeFields(
+        state.children,
+        value as JsonRecord,
+        `${path}.`,
+        location,
+      );
+    } else if (state.kind === "LIST") {
+      state.element ??= createFieldState();
+      for (const element of value as unknown[]) {
+        this.observeValue(state.element, element, `${path}[]`, location, true);
+      }
+    }
+  }
+
+  private resolveConflict(
+    state: FieldState,
+    kind: ValueKind,
+    value: unknown,
+    path: string,
+    location: string,
+  ): void {
+    const current = state.kind as ValueKind;
+    // Strings and JSON-serialized objects/arrays share the UTF8 column type
+    if (columnType(current) === columnType(kind)) return;
+    if (state.widened && current === "UTF8") return;
+    // Date-like strings in a string field stay strings
+    if (columnType(current) === "UTF8" && isTemporal(kind)) return;
+
+    if (isNumeric(current) && isNumeric(kind)) {
+      if (current === "INT64") {
+        this.widen(
+          path,
+          state,
+          "DOUBLE",
+          `non-integer value ${value} in ${location}`,
+        );
+      }
+    } else if (isTemporal(current) && isTemporal(kind)) {
+      if (TEMPORAL_PRECISION[kind] > TEMPORAL_PRECISION[current]) {
+        this.widen(
+          path,
+          state,
+          kind,
+          `${kind} value "${value}" in ${location}`,
+        );
+      }
+    } else if (isTemporal(current) && columnType(kind) === "UTF8") {
+      // Every temporal value is a string as well, so no data is lost
+      this.widen(
+        path,
+        state,
+        "UTF8",
+        `value ${JSON.stringify(value)} is not a recognised date or timestamp in ${location}`,
+      );
+    } else if (this.options.typeConflict === "error") {
+      this.conflicts.push(
+        `Type conflict for field "${path}": ${columnType(current)} vs ${columnType(kind)} in ${location}`,
+      );
+      state.kind = "UTF8";
+      state.widened = true;
+    } else {
+      this.widen(
+        path,
+        state,
+        "UTF8",
+        `mixed ${describeKind(current)} and ${describeKind(kind)} values in ${location}`,
+      );
+    }
+  }
+
+  private widen(
+    field: string,
+    state: FieldState,
+    to: ValueKind,
+    reason: string,
+  ): void {
+    this.widenings.push({
+      field,
+      from: columnType(state.kind as ValueKind),
+      to: columnType(to) as ParquetType,
+      reason,
+    });
+    state.kind = to;
+    state.widened = true;
+    state.children.clear();
+    state.element = null;
+  }
+
+  private valueKind(value: unknown, inList: boolean): ValueKind | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === "string") {
+      return detectTemporalType(value, this.options.temporalFormats) ?? "UTF8";
+    }
+    if (typeof value === "number") {
+      return Number.isInteger(value) ? "INT64" : "DOUBLE";
+    }
+    if (typeof value === "boolean") return "BOOLEAN";
+    if (value instanceof Date) return "TIMESTAMP_MILLIS";
+    if (this.options.nested === "native") {
+      // Lists of lists have no direct Parquet mapping and stay JSON strings
+      if (Array.isArray(value)) return inList ? "JSON" : "LIST";
+      return "GROUP";
+    }
+    // Objects/arrays are converted to JSON strings
+    return "JSON";
+  }
+}
+
+function createFieldState(): FieldState {
+  return { kind: null, widened: false, children: new Map(), element: null };
+}
+
+function buildFields(
+  fields: Map<string, FieldState>,
+  compression: CompressionType,
+): Record<string, FieldDefinition> {
+  const definitions: Record<string, FieldDefinition> = {};
+  for (const [name, state] of fields) {
+    definitions[name] =
+      state.kind === "LIST"
+        ? buildField(state.element ?? createFieldState(), compression, true)
+        : buildField(state, compression, false);
+  }
+  return definitions;
+}
+
+function buildField(
+  state: FieldState,
+  compression: CompressionType,
+  repeated: boolean,
+): FieldDefinition {
+  // Repeated fields already allow zero values, so they are never optional
+  const repetition = repeated ? { repeated: true } : { optional: true };
+
+  if (state.kind === "GROUP" && state.children.size > 0) {
+    return { ...repetition, fields: buildFields(state.children, compression) };
+  }
+  // Empty objects have no native column layout and stay JSON strings
+  const kind =
+    state.kind === "GROUP" || state.kind === null ? "UTF8" : state.kind;
+  return { type: columnType(kind) as ParquetType, compression, ...repetition };
+}
+
+function columnType(kind: ValueKind): ParquetType | "GROUP" | "LIST" {
+  return kind === "JSON" ? "UTF8" : kind;
+}
+
+const TEMPORAL_PRECISION: Record<string, number> = {
+  DATE: 0,
+  TIMESTAMP_MILLIS: 1,
+  TIMESTAMP_MICROS: 2,
+};
+
+function isTemporal(kind: ValueKind): boolean {
+  return kind in TEMPORAL_PRECISION;
+}
+
+function isNumeric(kind: ValueKind): boolean {
+  return kind === "INT64" || kind === "DOUBLE";
+}
+
+function describeKind(kind: ValueKind): string {
+  if (kind === "JSON") return "object/array";
+  if (kind === "GROUP") return "object";
+  if (kind === "LIST") return "array";
+  return kind;
+}
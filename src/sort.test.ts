@@ -0,0 +1,115 @@
+import { vol } from "memfs";
+import * as os from "os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { JsonRecord } from "./index.js";
+import {
+  compareRows,
+  ExternalSorter,
+  formatSortKeys,
+  parseSortKeys,
+  type SortOptions,
+} from "./sort.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+/**
+ * Sorts rows with an external sorter, returning them with its run count.
+ */
+async function sortRows(
+  rows: JsonRecord[],
+  options: SortOptions,
+): Promise<{ sorted: JsonRecord[]; runs: number }> {
+  const sorter = new ExternalSorter(options);
+  try {
+    for (const row of rows) await sorter.add(row);
+    const sorted: JsonRecord[] = [];
+    for await (const row of sorter.sortedRows()) sorted.push(row);
+    return { sorted, runs: sorter.spilledRunCount };
+  } finally {
+    await sorter.close();
+  }
+}
+
+describe("parseSortKeys", () => {
+  it("should parse columns with an optional direction", () => {
+    const keys = parseSortKeys(["created_at:DESC", "id", "name:asc"]);
+    expect(keys).toEqual([
+      { column: "created_at", descending: true },
+      { column: "id", descending: false },
+      { column: "name", descending: false },
+    ]);
+    expect(formatSortKeys(keys)).toBe("created_at:desc, id, name");
+  });
+
+  it("should reject unknown directions and empty columns", () => {
+    expect(() => parseSortKeys(["id:up"])).toThrow('Invalid sort key "id:up"');
+    expect(() => parseSortKeys([":desc"])).toThrow('Invalid sort key ":desc"');
+  });
+});
+
+describe("compareRows", () => {
+  it("should order by each key in turn, with nulls last", () => {
+    const rows: JsonRecord[] = [
+      { id: 1, at: new Date("2024-01-02") },
+      { id: 2, at: null },
+      { id: 3, at: new Date("2024-01-03") },
+      { id: 4, at: new Date("2024-01-02") },
+      { id: 5 },
+    ];
+    const order = (descending: boolean) =>
+      [...rows]
+        .sort(
+          compareRows([
+            { column: "at", descending },
+            { column: "id", descending: true },
+          ]),
+        )
+        .map((row) => row.id);
+
+    expect(order(false)).toEqual([4, 1, 3, 5, 2]);
+    expect(order(true)).toEqual([3, 4, 1, 5, 2]);
+  });
+});
+
+describe("ExternalSorter", () => {
+  const rows: JsonRecord[] = Array.from({ length: 150 }, (_, i) => ({
+    group: (i * 37) % 10,
+    seq: i,
+    micros: BigInt(i),
+  }));
+  const expected = [...rows].sort((a, b) =>
+    a.group === b.group
+      ? (a.seq as number) - (b.seq as number)
+      : (a.group as number) - (b.group as number),
+  );
+  const keys = [{ column: "group", descending: false }];
+
+  beforeEach(() => {
+    vol.mkdirSync(os.tmpdir(), { recursive: true });
+  });
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should sort in memory when the rows fit", async () => {
+    expect(await sortRows(rows, { keys })).toEqual({
+      sorted: expected,
+      runs: 0,
+    });
+  });
+
+  it("should merge spilled runs stably, in several passes when needed", async () => {
+    expect(await sortRows(rows, { keys, maxRowsInMemory: 16 })).toEqual({
+      sorted: expected,
+      runs: 10,
+    });
+    // More runs than are merged at once
+    expect(await sortRows(rows, { keys, maxRowsInMemory: 1 })).toEqual({
+      sorted: expected,
+      runs: 150,
+    });
+    expect(vol.readdirSync(os.tmpdir())).toEqual([]);
+  });
+});
@@ -0,0 +1,290 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { JsonRecord } from "./index.js";
+import { createSpillDirectory, readSpill, SpillWriter } from "./spill.js";
+
+export interface SortKey {
+  column: string;
+  descending: boolean;
+}
+
+export interface SortOptions {
+  keys: SortKey[];
+  /** Rows sorted in memory before they are spilled to disk as a run */
+  maxRowsInMemory?: number;
+}
+
+const DEFAULT_MAX_ROWS_IN_MEMORY = 100_000;
+
+/**
+ * Runs merged at once. Merging more runs than this takes several passes, so
+ * that open files and read buffers stay bounded.
+ */
+const MERGE_FAN_IN = 64;
+
+/**
+ * Parses sort keys given as `column`, `column:asc` or `column:desc`.
+ */
+export function parseSortKeys(specs: string[]): SortKey[] {
+  return specs.map((spec) => {
+    const separator = spec.lastIndexOf(":");
+    const column = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+    const direction =
+      separator === -1
+        ? "asc"
+        : spec
+            .slice(separator + 1)
+            .trim()
+            .toLowerCase();
+    if (column === "" || (direction !== "asc" && direction !== "desc")) {
+      throw new Error(
+        `Invalid sort key "${spec}": expected column, column:asc or column:desc`,
+      );
+    }
+    return { column, descending: direction === "desc" };
+  });
+}
+
+/**
+ * Describes sort keys as they are written on the command line.
+ */
+export function formatSortKeys(keys: SortKey[]): string {
+  return keys
+    .map(({ column, descending }) => (descending ? `${column}:desc` : column))
+    .join(", ");
+}
+
+/**
+ * Orders rows by the sort keys. Nulls and missing values sort last in either
+ * direction.
+ */
+export function compareRows(
+  keys: SortKey[],
+): (a: JsonRecord, b: JsonRecord) => number {
+  return (a, b) => {
+    for (const { column, descending } of keys) {
+      const left = a[column] ?? null;
+      const right = b[column] ?? null;
+      if (left === null || right === null) {
+        if (left !== right) return left === null ? 1 : -1;
+        continue;
+      }
+      const order = compareValues(left, right);
+      if (order !== 0) return descending ? -order : order;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Sorts rows of any number with an external merge sort. Rows are sorted in
+ * memory in runs of `maxRowsInMemory`, each full run is spilled to a temporary
+ * file, and the runs are merged back into one ordered stream. Rows with equal
+ * keys keep the order in which they were added.
+ */
+export class ExternalSorter {
+  private readonly compare: (a: JsonRecord, b: JsonRecord) => number;
+  private readonly maxRowsInMemory: number;
+  private buffer: JsonRecord[] = [];
+  private runs: string[] = [];
+  private directory: string | null = null;
+  private runCounter = 0;
+  private rowTotal = 0;
+
+  constructor(options: SortOptions) {
+    this.compare = compareRows(options.keys);
+    this.maxRowsInMemory =
+      options.maxRowsInMemory ?? DEFAULT_MAX_ROWS_IN_MEMORY;
+  }
+
+  /**
+   * Number of rows added.
+   */
+  get rowCount(): number {
+    return this.rowTotal;
+  }
+
+  /**
+   * Number of sorted runs spilled to disk, or 0 when the rows fit in memory.
+   */
+  get spilledRunCount(): number {
+    return this.runs.length;
+  }
+
+  async add(row: JsonRecord): Promise<void> {
+    this.buffer.push(row);
+    this.rowTotal++;
+    if (this.buffer.length >= this.maxRowsInMemory) {
+      await this.spillRun();
+    }
+  }
+
+  /**
+   * Streams every added row in sorted order. Call once, after the last row
+   * is added.
+   */
+  async *sortedRows(): AsyncGenerator<JsonRecord> {
+    if (this.runs.length === 0) {
+      const rows = this.buffer.sort(this.compare);
+      this.buffer = [];
+      yield* rows;
+      return;
+    }
+
+    if (this.buffer.length > 0) await this.spillRun();
+    let runs = this.runs;
+    while (runs.length > MERGE_FAN_IN) {
+      const merged: string[] = [];
+      for (let i = 0; i < runs.length; i += MERGE_FAN_IN) {
+        merged.push(await this.mergeToRun(runs.slice(i, i + MERGE_FAN_IN)));
+      }
+      runs = merged;
+    }
+    yield* this.merge(runs);
+  }
+
+  /**
+   * Removes the spilled runs.
+   */
+  async close(): Promise<void> {
+    this.buffer = [];
+    if (this.directory) {
+      await fs.rm(this.directory, { recursive: true, force: true });
+      this.directory = null;
+    }
+  }
+
+  private async spillRun(): Promise<void> {
+    const rows = this.buffer.sort(this.compare);
+    this.buffer = [];
+    const writer = await this.createRun();
+    try {
+      for (const row of rows) await writer.write(row);
+    } finally {
+      await writer.close();
+    }
+    this.runs.push(writer.file);
+  }
+
+  private async mergeToRun(runs: string[]): Promise<string> {
+    const writer = await this.createRun();
+    try {
+      for await (const row of this.merge(runs)) await writer.write(row);
+    } finally {
+      await writer.close();
+    }
+    return writer.file;
+  }
+
+  private async createRun(): Promise<SpillWriter> {
+    this.directory ??= await createSpillDirectory("sort");
+    return SpillWriter.create(
+      path.join(this.directory, `run-${this.runCounter++}`),
+    );
+  }
+
+  /**
+   * K-way merge of sorted runs, removing each run once it is read. Ties go to
+   * the earlier run, which keeps the sort stable.
+   */
+  private async *merge(runs: string[]): AsyncGenerator<JsonRecord> {
+    const heap = new RunHeap(this.compare);
+    const readers = runs.map((run) => readSpill(run));
+    try {
+      for (let i = 0; i < readers.length; i++) {
+        const next = await readers[i].next();
+        if (!next.done) heap.push({ row: next.value as JsonRecord, run: i });
+      }
+      while (heap.size > 0) {
+        const head = heap.pop();
+        yield head.row;
+        const next = await readers[head.run].next();
+        if (!next.done) {
+          heap.push({ row: next.value as JsonRecord, run: head.run });
+        }
+      }
+    } finally {
+      for (const reader of readers) await reader.return(undefined);
+      for (const run of runs) await fs.rm(run, { force: true });
+    }
+  }
+}
+
+interface HeapEntry {
+  row: JsonRecord;
+  run: number;
+}
+
+/**
+ * Binary min-heap of the next row of each run.
+ */
+class RunHeap {
+  private readonly entries: HeapEntry[] = [];
+
+  constructor(
+    private readonly compare: (a: JsonRecord, b: JsonRecord) => number,
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(entry: HeapEntry): void {
+    const entries = this.entries;
+    entries.push(entry);
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(entries[i], entries[parent])) break;
+      [entries[i], entries[parent]] = [entries[parent], entries[i]];
+      i = parent;
+    }
+  }
+
+  pop(): HeapEntry {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop() as HeapEntry;
+    if (entries.length > 0) {
+      entries[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (
+          left < entries.length &&
+          this.before(entries[left], entries[smallest])
+        ) {
+          smallest = left;
+        }
+        if (
+          right < entries.length &&
+          this.before(entries[right], entries[smallest])
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [entries[i], entries[smallest]] = [entries[smallest], entries[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: HeapEntry, b: HeapEntry): boolean {
+    const order = this.compare(a.row, b.row);
+    return order < 0 || (order === 0 && a.run < b.run);
+  }
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  if (Buffer.isBuffer(left) && Buffer.isBuffer(right)) {
+    return Buffer.compare(left, right);
+  }
+  const a = left instanceof Date ? left.getTime() : left;
+  const b = right instanceof Date ? right.getTime() : right;
+  if ((a as number) < (b as number)) return -1;
+  if ((a as number) > (b as number)) return 1;
+  return 0;
+}
@@ -0,0 +1,61 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_SOURCE_COLUMN_NAMES,
+  parseSourceColumnNames,
+  sourceColumnFields,
+  sourcePath,
+} from "./source-columns.js";
+
+describe("parseSourceColumnNames", () => {
+  it("should rename the listed columns and keep the other defaults", () => {
+    expect(parseSourceColumnNames([])).toEqual(DEFAULT_SOURCE_COLUMN_NAMES);
+    expect(
+      parseSourceColumnNames(["file=src_file", "ingested_at = loaded_at"]),
+    ).toEqual({
+      file: "src_file",
+      index: "_source_index",
+      ingestedAt: "loaded_at",
+    });
+  });
+
+  it("should reject unknown columns, empty names and duplicates", () => {
+    expect(() => parseSourceColumnNames(["row=n"])).toThrow(
+      'Invalid source column name "row=n"',
+    );
+    expect(() => parseSourceColumnNames(["file="])).toThrow(
+      'Invalid source column name "file="',
+    );
+    expect(() => parseSourceColumnNames(["index=_source_file"])).toThrow(
+      'Source column "_source_file" is named twice',
+    );
+  });
+});
+
+describe("sourceColumnFields", () => {
+  it("should type the file, position and ingestion time columns", () => {
+    expect(sourceColumnFields(DEFAULT_SOURCE_COLUMN_NAMES, "SNAPPY")).toEqual({
+      _source_file: { type: "UTF8", compression: "SNAPPY" },
+      _source_index: { type: "INT64", compression: "SNAPPY" },
+      _ingested_at: { type: "TIMESTAMP_MILLIS", compression: "SNAPPY" },
+    });
+  });
+});
+
+describe("sourcePath", () => {
+  it("should name files relative to the input directory or file", () => {
+    expect(sourcePath("/data/in/2024/a.json", "/data/in", "relative")).toBe(
+      "2024/a.json",
+    );
+    expect(sourcePath("/data/in/a.json", "/data/in/a.json", "relative")).toBe(
+      "a.json",
+    );
+  });
+
+  it("should resolve absolute paths", () => {
+    expect(sourcePath("in/a.json", "in", "absolute")).toBe(
+      path.resolve("in/a.json"),
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import type { FieldDefinition } from "@dsnp/parquetjs";
+import * as path from "path";
+import type { CompressionType } from "./index.js";
+
+/**
+ * How `_source_file` holds the input path: `relative` to the input
+ * directory, or `absolute`.
+ */
+export type SourcePathMode = "relative" | "absolute";
+
+/**
+ * Names of the lineage columns added to every row.
+ */
+export interface SourceColumnNames {
+  /** Input file the record was read from */
+  file: string;
+  /** 0-based position of the record within its file */
+  index: string;
+  /** Time the run started, shared by all rows it writes */
+  ingestedAt: string;
+}
+
+export const DEFAULT_SOURCE_COLUMN_NAMES: SourceColumnNames = {
+  file: "_source_file",
+  index: "_source_index",
+  ingestedAt: "_ingested_at",
+};
+
+const SOURCE_COLUMN_KEYS: Record<string, keyof SourceColumnNames> = {
+  file: "file",
+  index: "index",
+  ingested_at: "ingestedAt",
+};
+
+/**
+ * Parses `column=name` pairs that rename lineage columns, such as
+ * `file=src_file`. Columns that are not listed keep their default name.
+ */
+export function parseSourceColumnNames(pairs: string[]): SourceColumnNames {
+  const names = { ...DEFAULT_SOURCE_COLUMN_NAMES };
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf("=");
+    const key = SOURCE_COLUMN_KEYS[pair.slice(0, separator).trim()];
+    const name = pair.slice(separator + 1).trim();
+    if (separator === -1 || !key || name === "") {
+      throw new Error(
+        `Invalid source column name "${pair}": expected file=, index= or ingested_at= followed by a name`,
+      );
+    }
+    names[key] = name;
+  }
+
+  const duplicate = Object.values(names).find(
+    (name, i, all) => all.indexOf(name) !== i,
+  );
+  if (duplicate !== undefined) {
+    throw new Error(`Source column "${duplicate}" is named twice`);
+  }
+  return names;
+}
+
+/**
+ * Schema fields of the lineage columns, which are set on every row.
+ */
+export function sourceColumnFields(
+  names: SourceColumnNames,
+  compression: CompressionType,
+): Record<string, FieldDefinition> {
+  return {
+    [names.file]: { type: "UTF8", compression },
+    [names.index]: { type: "INT64", compression },
+    [names.ingestedAt]: { type: "TIMESTAMP_MILLIS", compression },
+  };
+}
+
+/**
+ * Path of an input file as written to the source file column. Relative paths
+ * use `/` on every platform, and a file given as the input itself is named
+ * by its base name.
+ */
+export function sourcePath(
+  file: string,
+  input: string,
+  mode: SourcePathMode,
+): string {
+  if (mode === "absolute") return path.resolve(file);
+  const relative = path.relative(input, file) || path.basename(file);
+  return relative.split(path.sep).join("/");
+}
@@ -0,0 +1,50 @@
+import { vol } from "memfs";
+import * as os from "os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createSpillDirectory, readSpill, SpillWriter } from "./spill.js";
+
+vi.mock("fs/promises", () => import("memfs").then(({ fs }) => fs.promises));
+
+describe("spill files", () => {
+  beforeEach(() => {
+    vol.mkdirSync(os.tmpdir(), { recursive: true });
+  });
+
+  afterEach(() => {
+    vol.reset();
+  });
+
+  it("should read back values of any type in the order written", async () => {
+    const directory = await createSpillDirectory("test");
+    const file = `${directory}/values`;
+    const values = [
+      { id: 1, at: new Date("2024-05-01T00:00:00Z"), micros: 5n },
+      { data: Buffer.from("abc"), tags: ["a", null] },
+      // Larger than a read chunk, so it spans several of them
+      { text: "x".repeat(200_000) },
+    ];
+
+    const writer = await SpillWriter.create(file);
+    for (const value of values) await writer.write(value);
+    await writer.close();
+
+    const read: unknown[] = [];
+    for await (const value of readSpill(file)) read.push(value);
+    expect(read).toEqual(values);
+  });
+
+  it("should fail on a truncated file", async () => {
+    const directory = await createSpillDirectory("test");
+    const file = `${directory}/values`;
+    const writer = await SpillWriter.create(file);
+    await writer.write({ id: 1 });
+    await writer.close();
+    vol.writeFileSync(file, (vol.readFileSync(file) as Buffer).subarray(0, 6));
+
+    await expect(async () => {
+      for await (const _ of readSpill(file)) {
+      }
+    }).rejects.toThrow("ends with a truncated value");
+  });
+});
@@ -0,0 +1,105 @@
+import { deserialize, serialize } from "node:v8";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+/**
+ * Bytes buffered in memory before they are written to a spill file.
+ */
+const WRITE_BUFFER_SIZE = 1024 * 1024;
+
+/**
+ * Size of each chunk read back from a spill file.
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Creates an empty temporary directory for spill files. Callers remove it
+ * once they are done.
+ */
+export function createSpillDirectory(purpose: string): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), `json-parquet-${purpose}-`));
+}
+
+/**
+ * Encodes values as length-prefixed V8 serializations, which keep the Dates,
+ * bigints and Buffers of coerced rows intact.
+ */
+export function encodeSpillValues(values: unknown[]): Buffer {
+  const frames: Buffer[] = [];
+  for (const value of values) {
+    const body = serialize(value);
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(body.length);
+    frames.push(header, body);
+  }
+  return Buffer.concat(frames);
+}
+
+/**
+ * Appends values to a spill file, writing them in large blocks.
+ */
+export class SpillWriter {
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+
+  private constructor(
+    readonly file: string,
+    private readonly handle: fs.FileHandle,
+  ) {}
+
+  static async create(file: string): Promise<SpillWriter> {
+    return new SpillWriter(file, await fs.open(file, "w"));
+  }
+
+  async write(value: unknown): Promise<void> {
+    const frame = encodeSpillValues([value]);
+    this.pending.push(frame);
+    this.pendingBytes += frame.length;
+    if (this.pendingBytes >= WRITE_BUFFER_SIZE) await this.flush();
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    await this.handle.close();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.pending.length === 0) return;
+    await this.handle.write(Buffer.concat(this.pending));
+    this.pending = [];
+    this.pendingBytes = 0;
+  }
+}
+
+/**
+ * Streams the values of a spill file in the order they were written.
+ */
+export async function* readSpill(file: string): AsyncGenerator<unknown> {
+  const handle = await fs.open(file, "r");
+  const chunk = Buffer.alloc(READ_CHUNK_SIZE);
+  let buffered = Buffer.alloc(0);
+
+  try {
+    while (true) {
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, null);
+      if (bytesRead === 0) break;
+      buffered = Buffer.concat([buffered, chunk.subarray(0, bytesRead)]);
+
+      let offset = 0;
+      while (buffered.length - offset >= 4) {
+        const length = buffered.readUInt32LE(offset);
+        if (buffered.length - offset - 4 < length) break;
+        yield deserialize(buffered.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+      buffered = buffered.subarray(offset);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (buffered.length > 0) {
+    throw new Error(`Spill file ${file} ends with a truncated value`);
+  }
+}
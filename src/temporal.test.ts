@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  detectTemporalType,
+  TEMPORAL_FORMATS,
+  toTemporalValue,
+} from "./temporal.js";
+
+describe("detectTemporalType", () => {
+  it("should detect ISO-8601 timestamps by fractional precision", () => {
+    expect(detectTemporalType("2024-01-15T10:00:00Z", TEMPORAL_FORMATS)).toBe(
+      "TIMESTAMP_MILLIS",
+    );
+    expect(
+      detectTemporalType("2024-01-15 10:00:00.123", TEMPORAL_FORMATS),
+    ).toBe("TIMESTAMP_MILLIS");
+    expect(
+      detectTemporalType("2024-01-15T10:00:00.123456-0500", TEMPORAL_FORMATS),
+    ).toBe("TIMESTAMP_MICROS");
+  });
+
+  it("should detect ISO-8601 dates and epoch milliseconds", () => {
+    expect(detectTemporalType("2024-01-15", TEMPORAL_FORMATS)).toBe("DATE");
+    expect(detectTemporalType("1705312800000", TEMPORAL_FORMATS)).toBe(
+      "TIMESTAMP_MILLIS",
+    );
+  });
+
+  it("should ignore strings that are not temporal", () => {
+    expect(detectTemporalType("hello", TEMPORAL_FORMATS)).toBeNull();
+    expect(detectTemporalType("2024-13-45", TEMPORAL_FORMATS)).toBeNull();
+    expect(detectTemporalType("12345", TEMPORAL_FORMATS)).toBeNull();
+    expect(
+      detectTemporalType(
+        "550e8400-e29b-41d4-a716-446655440000",
+        TEMPORAL_FORMATS,
+      ),
+    ).toBeNull();
+  });
+
+  it("should only detect the enabled formats", () => {
+    expect(detectTemporalType("2024-01-15", ["iso-timestamp"])).toBeNull();
+    expect(detectTemporalType("1705312800000", ["iso-date"])).toBeNull();
+    expect(detectTemporalType("2024-01-15T10:00:00Z", [])).toBeNull();
+  });
+});
+
+describe("toTemporalValue", () => {
+  it("should convert timestamps and dates to Date values", () => {
+    expect(toTemporalValue("TIMESTAMP_MILLIS", "2024-01-15T10:00:00Z")).toEqual(
+      new Date("2024-01-15T10:00:00Z"),
+    );
+    expect(toTemporalValue("TIMESTAMP_MILLIS", "1705312800000")).toEqual(
+      new Date(1705312800000),
+    );
+    expect(toTemporalValue("TIMESTAMP_MILLIS", "2024-01-15 10:00:00")).toEqual(
+      new Date("2024-01-15T10:00:00Z"),
+    );
+    expect(toTemporalValue("DATE", "2024-01-15")).toEqual(
+      new Date("2024-01-15T00:00:00Z"),
+    );
+  });
+
+  it("should keep microsecond precision for TIMESTAMP_MICROS", () => {
+    expect(
+      toTemporalValue("TIMESTAMP_MICROS", "2024-01-15T10:00:00.123456Z"),
+    ).toBe(1705312800123456n);
+    expect(toTemporalValue("TIMESTAMP_MICROS", "2024-01-15T10:00:00Z")).toBe(
+      1705312800000000n,
+    );
+  });
+
+  it("should reject values that are not valid dates", () => {
+    expect(() => toTemporalValue("TIMESTAMP_MILLIS", "n/a")).toThrow(
+      "Invalid TIMESTAMP_MILLIS value: n/a",
+    );
+  });
+});
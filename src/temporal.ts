@@ -0,0 +1,115 @@
+import type { TemporalFormat } from "./index.js";
+
+/**
+ * Parquet types that detected temporal strings are stored as.
+ */
+export type TemporalType = "DATE" | "TIMESTAMP_MILLIS" | "TIMESTAMP_MICROS";
+
+export const TEMPORAL_FORMATS: TemporalFormat[] = [
+  "iso-timestamp",
+  "iso-date",
+  "epoch-millis",
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP =
+  /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(?::\d{2})?)(?:\.(\d{1,9}))?(Z|[+-]\d{2}:?\d{2})?$/i;
+// 13 digits covers epoch milliseconds from 2001 to 2286
+const EPOCH_MILLIS = /^\d{13}$/;
+
+const MILLIS_PER_DAY = 86_400_000;
+
+/**
+ * Detects whether a string holds a timestamp or date in one of the enabled
+ * formats and returns the Parquet type it maps to, or null when it does not.
+ */
+export function detectTemporalType(
+  value: string,
+  formats: TemporalFormat[],
+): TemporalType | null {
+  if (formats.includes("iso-date") && ISO_DATE.test(value)) {
+    return Number.isNaN(Date.parse(value)) ? null : "DATE";
+  }
+  if (formats.includes("iso-timestamp")) {
+    const match = ISO_TIMESTAMP.exec(value);
+    if (match) {
+      if (Number.isNaN(Date.parse(normalizeTimestamp(value)))) return null;
+      const fraction = match[3] ?? "";
+      return fraction.length > 3 ? "TIMESTAMP_MICROS" : "TIMESTAMP_MILLIS";
+    }
+  }
+  if (formats.includes("epoch-millis") && EPOCH_MILLIS.test(value)) {
+    return "TIMESTAMP_MILLIS";
+  }
+  return null;
+}
+
+/**
+ * Converts a detected temporal string into the value the Parquet writer
+ * expects for the given type: a `Date` for DATE and TIMESTAMP_MILLIS, and a
+ * count of microseconds since the epoch for TIMESTAMP_MICROS.
+ */
+export function toTemporalValue(
+  type: TemporalType,
+  value: string,
+): Date | bigint {
+  if (type === "TIMESTAMP_MICROS") {
+    return toEpochMicros(value);
+  }
+  const date = EPOCH_MILLIS.test(value)
+    ? new Date(Number(value))
+    : new Date(normalizeTimestamp(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${type} value: ${value}`);
+  }
+  if (type === "DATE") {
+    // DATE columns hold whole days; drop any time-of-day component
+    return new Date(
+      Math.floor(date.getTime() / MILLIS_PER_DAY) * MILLIS_PER_DAY,
+    );
+  }
+  return date;
+}
+
+/**
+ * Returns true when the Parquet type is one of the temporal types.
+ */
+export function isTemporalType(type: unknown): type is TemporalType {
+  return (
+    type === "DATE" ||
+    type === "TIMESTAMP_MILLIS" ||
+    type === "TIMESTAMP_MICROS"
+  );
+}
+
+function toEpochMicros(value: string): bigint {
+  if (EPOCH_MILLIS.test(value)) {
+    return BigInt(value) * 1000n;
+  }
+  const match = ISO_TIMESTAMP.exec(value);
+  const millis = Date.parse(normalizeTimestamp(value));
+  if (Number.isNaN(millis)) {
+    throw new Error(`Invalid TIMESTAMP_MICROS value: ${value}`);
+  }
+  // Date.parse keeps milliseconds only; restore the sub-millisecond digits
+  const fraction = (match?.[3] ?? "").padEnd(6, "0");
+  const subMillis = BigInt(fraction.slice(3, 6));
+  return BigInt(millis) * 1000n + subMillis;
+}
+
+/**
+ * Rewrites an ISO-8601 timestamp into a form `Date.parse` accepts: a `T`
+ * separator, at most millisecond precision, a colon in the offset and UTC
+ * when no offset is given.
+ */
+function normalizeTimestamp(value: string): string {
+  const match = ISO_TIMESTAMP.exec(value);
+  if (!match) return value;
+  const [, date, time, fraction, zone] = match;
+  const millis = fraction ? `.${fraction.slice(0, 3).padEnd(3, "0")}` : "";
+  let offset = zone ?? "Z";
+  if (/^[+-]\d{4}$/.test(offset)) {
+    offset = `${offset.slice(0, 3)}:${offset.slice(3)}`;
+  }
+  return `${date}T${time}${millis}${offset.toUpperCase()}`;
+}
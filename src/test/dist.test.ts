@@ -0,0 +1,74 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const run = promisify(execFile);
+
+const root = path.resolve(__dirname, "../..");
+
+/**
+ * Smoke tests of the compiled CLI under plain Node.js, which resolves ES
+ * module imports more strictly than vitest and tsx.
+ */
+describe("Built CLI", () => {
+  let tempDir: string;
+  let entry: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "json-parquet-dist-"));
+    // Compile as `pnpm build` does, but outside the repository
+    await run(
+      process.execPath,
+      [
+        path.join(root, "node_modules/typescript/bin/tsc"),
+        "--outDir",
+        path.join(tempDir, "dist"),
+      ],
+      { cwd: root },
+    );
+    entry = path.join(tempDir, "dist/index.js");
+    // Node.js needs the package type and the dependencies next to the output
+    await fs.writeFile(
+      path.join(tempDir, "package.json"),
+      JSON.stringify({ type: "module" }),
+    );
+    await fs.symlink(
+      path.join(root, "node_modules"),
+      path.join(tempDir, "node_modules"),
+    );
+  }, 120_000);
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should start and print its usage", async () => {
+    const { stdout } = await run(process.execPath, [entry, "--help"]);
+
+    expect(stdout).toContain("Usage: json-parquet-merger");
+  });
+
+  it("should merge files on worker threads", async () => {
+    const input = path.join(tempDir, "input");
+    await fs.mkdir(input);
+    await fs.writeFile(path.join(input, "a.jsonl"), '{"id": 1}\n{"id": 2}\n');
+    await fs.writeFile(path.join(input, "b.json"), '[{"id": 3}]');
+    const output = path.join(tempDir, "output.parquet");
+
+    const { stdout } = await run(process.execPath, [
+      entry,
+      "-i",
+      input,
+      "-o",
+      output,
+      "--concurrency",
+      "2",
+    ]);
+
+    expect(stdout).toContain("Successfully merged 3 records");
+    expect((await fs.stat(output)).size).toBeGreaterThan(0);
+  }, 60_000);
+});
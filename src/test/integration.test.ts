@@ -11,7 +11,7 @@ import {
   vi,
 } from "vitest";
 
-import { type CompressionType, JsonParquetMerger } from "../index";
+import { type CompressionType, JsonParquetMerger } from "../index.js";
 
 /**
  * Schema field definition for Parquet schema.
@@ -134,7 +134,7 @@ describe("JsonParquetMerger Integration Tests", () => {
       // Verify schema inference
       expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
         timestamp: {
-          type: "UTF8",
+          type: "TIMESTAMP_MILLIS",
           compression: "UNCOMPRESSED",
           optional: true,
         },
@@ -148,22 +148,42 @@ describe("JsonParquetMerger Integration Tests", () => {
 
       // Verify records content
       expect(mockWriter.appendRow).toHaveBeenCalledWith({
-        timestamp: "2023-01-01T00:00:00Z",
+        timestamp: new Date("2023-01-01T00:00:00Z"),
         event: "login",
         userId: 1001,
       });
       expect(mockWriter.appendRow).toHaveBeenCalledWith({
-        timestamp: "2023-01-01T01:30:00Z",
+        timestamp: new Date("2023-01-01T01:30:00Z"),
         event: "purchase",
         userId: 1002,
       });
       expect(mockWriter.appendRow).toHaveBeenCalledWith({
-        timestamp: "2023-01-01T02:15:00Z",
+        timestamp: new Date("2023-01-01T02:15:00Z"),
         event: "logout",
         userId: 1001,
       });
     });
 
+    it("should write the same rows when reading files on worker threads", async () => {
+      const rowsWith = async (concurrency: number): Promise<unknown[]> => {
+        mockWriter.appendRow.mockClear();
+        const merger = new JsonParquetMerger({
+          input: testDataDir,
+          output: outputPath,
+          validate: false,
+          batchSize: 2,
+          compression: "UNCOMPRESSED" as CompressionType,
+          concurrency,
+        });
+        await merger.run();
+        return mockWriter.appendRow.mock.calls;
+      };
+
+      const sequential = await rowsWith(1);
+      expect(sequential.length).toBeGreaterThan(5);
+      expect(await rowsWith(3)).toEqual(sequential);
+    });
+
     it("should process single JSON file with nested objects", async () => {
       const merger = new JsonParquetMerger({
         input: path.join(testDataDir, "users.json"),
@@ -249,6 +269,76 @@ describe("JsonParquetMerger Integration Tests", () => {
       });
     });
 
+    it("should process NDJSON files", async () => {
+      const merger = new JsonParquetMerger({
+        input: path.join(testDataDir, "events.jsonl"),
+        output: outputPath,
+        validate: false,
+        batchSize: 10,
+        compression: "UNCOMPRESSED" as CompressionType,
+      });
+      await merger.run();
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        timestamp: {
+          type: "TIMESTAMP_MILLIS",
+          compression: "UNCOMPRESSED",
+          optional: true,
+        },
+        event: { type: "UTF8", compression: "UNCOMPRESSED", optional: true },
+        userId: { type: "INT64", compression: "UNCOMPRESSED", optional: true },
+      });
+
+      expect(mockWriter.appendRow).toHaveBeenCalledTimes(2);
+      expect(mockWriter.appendRow).toHaveBeenCalledWith({
+        timestamp: new Date("2023-01-02T00:05:00Z"),
+        event: "logout",
+        userId: 2001,
+      });
+    });
+
+    it("should apply a YAML schema file instead of inference", async () => {
+      const merger = new JsonParquetMerger({
+        input: path.join(testDataDir, "users.json"),
+        output: outputPath,
+        validate: false,
+        batchSize: 10,
+        compression: "UNCOMPRESSED" as CompressionType,
+        schema: path.join(testDataDir, "users-schema.yaml"),
+      });
+      await merger.run();
+
+      expect(vi.mocked(ParquetSchema)).toHaveBeenCalledWith({
+        id: { type: "INT32", compression: "UNCOMPRESSED", optional: false },
+        name: { type: "UTF8", compression: "GZIP", optional: true },
+        age: { type: "DOUBLE", compression: "UNCOMPRESSED", optional: true },
+        metadata: {
+          optional: true,
+          fields: {
+            department: {
+              type: "UTF8",
+              compression: "UNCOMPRESSED",
+              optional: true,
+            },
+            skills: {
+              type: "UTF8",
+              compression: "UNCOMPRESSED",
+              repeated: true,
+            },
+          },
+        },
+      });
+      expect(mockWriter.appendRow).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 1,
+          metadata: {
+            department: "Engineering",
+            skills: ["JavaScript", "TypeScript", "Node.js"],
+          },
+        }),
+      );
+    });
+
     it("should validate schema and skip invalid files when validation is enabled", async () => {
       const merger = new JsonParquetMerger({
         input: path.join(testDataDir, "invalid-schema.json"),
@@ -0,0 +1,171 @@
+import type { FieldDefinition } from "@dsnp/parquetjs";
+import { describe, expect, it } from "vitest";
+
+import {
+  RecordValidator,
+  VALIDATION_RULES,
+  ValidationReport,
+} from "./validation.js";
+
+const fields: Record<string, FieldDefinition> = {
+  id: { type: "INT64", optional: false },
+  name: { type: "UTF8", optional: true },
+  score: { type: "DOUBLE", optional: true },
+  active: { type: "BOOLEAN", optional: true },
+  createdAt: { type: "TIMESTAMP_MILLIS", optional: true },
+  metadata: { type: "UTF8", optional: true },
+  address: {
+    optional: true,
+    fields: { city: { type: "UTF8", optional: true } },
+  },
+  tags: { type: "INT32", repeated: true },
+};
+
+describe("RecordValidator", () => {
+  it("should accept records whose values have the column types", () => {
+    const validator = new RecordValidator(fields, VALIDATION_RULES.strict);
+
+    expect(
+      validator.validate({
+        id: 1,
+        name: "John",
+        score: 1.5,
+        active: true,
+        createdAt: "2024-01-15T10:00:00Z",
+        metadata: { source: "api" },
+        address: { city: "Berlin" },
+        tags: [1, 2],
+      }),
+    ).toEqual({ valid: true, issues: [] });
+  });
+
+  it("should report every issue of a strictly validated record", () => {
+    const validator = new RecordValidator(fields, VALIDATION_RULES.strict);
+
+    const result = validator.validate({
+      id: null,
+      name: 42,
+      score: "1.5",
+      active: "yes",
+      createdAt: "yesterday",
+      address: { city: "Berlin", zip: "10115" },
+      tags: [1, "two"],
+      extra: true,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        field: "id",
+        rule: "required",
+        message: 'Missing value for required field "id"',
+      },
+      {
+        field: "name",
+        rule: "type",
+        message: 'Field "name" has number value 42, expected UTF8',
+      },
+      {
+        field: "score",
+        rule: "type",
+        message: 'Field "score" has string value "1.5", expected DOUBLE',
+      },
+      {
+        field: "active",
+        rule: "type",
+        message: 'Field "active" has string value "yes", expected BOOLEAN',
+      },
+      {
+        field: "createdAt",
+        rule: "type",
+        message:
+          'Field "createdAt" has string value "yesterday", expected TIMESTAMP_MILLIS',
+      },
+      {
+        field: "metadata",
+        rule: "missing",
+        message: 'Missing field "metadata"',
+      },
+      {
+        field: "address.zip",
+        rule: "extra",
+        message: 'Unexpected field "address.zip"',
+      },
+      {
+        field: "tags[]",
+        rule: "type",
+        message: 'Field "tags[]" has string value "two", expected INT32',
+      },
+      { field: "extra", rule: "extra", message: 'Unexpected field "extra"' },
+    ]);
+  });
+
+  it("should allow missing optional and extra fields in lenient mode", () => {
+    const validator = new RecordValidator(fields, VALIDATION_RULES.lenient);
+
+    expect(validator.validate({ id: 1, extra: true }).valid).toBe(true);
+    expect(validator.validate({ name: "John" }).issues).toEqual([
+      {
+        field: "id",
+        rule: "required",
+        message: 'Missing value for required field "id"',
+      },
+    ]);
+    expect(validator.validate({ id: "1" }).issues[0].rule).toBe("type");
+  });
+
+  it("should accept scalars in fields widened to UTF8", () => {
+    const validator = new RecordValidator(
+      fields,
+      VALIDATION_RULES.lenient,
+      new Set(["name", "address.city"]),
+    );
+
+    expect(
+      validator.validate({ id: 1, name: 7, address: { city: false } }).valid,
+    ).toBe(true);
+    expect(validator.validate({ id: 1, metadata: 7 }).issues).toEqual([
+      {
+        field: "metadata",
+        rule: "type",
+        message: 'Field "metadata" has number value 7, expected UTF8',
+      },
+    ]);
+  });
+
+  it("should accept values that coerce without loss in coerce mode", () => {
+    const validator = new RecordValidator(fields, VALIDATION_RULES.coerce);
+
+    expect(
+      validator.validate({ id: "1", score: "1.5", active: "true", tags: [3] })
+        .valid,
+    ).toBe(true);
+    expect(validator.validate({ id: 1, score: "n/a" }).issues).toEqual([
+      {
+        field: "score",
+        rule: "type",
+        message: 'Cannot coerce value "n/a" of field "score" to DOUBLE',
+      },
+    ]);
+  });
+});
+
+describe("ValidationReport", () => {
+  it("should count failed records and issues per field and rule", () => {
+    const validator = new RecordValidator(fields, VALIDATION_RULES.lenient);
+    const report = new ValidationReport();
+
+    report.add(validator.validate({ id: 1 }));
+    report.add(validator.validate({ id: "2", tags: ["a", "b"] }));
+    report.add(validator.validate({ id: "3" }));
+
+    expect(report.summary()).toEqual({
+      checked: 3,
+      failed: 2,
+      issues: [
+        { field: "id", rule: "type", count: 2 },
+        { field: "tags[]", rule: "type", count: 1 },
+      ],
+    });
+  });
+});
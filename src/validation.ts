@@ -0,0 +1,285 @@
+import type { FieldDefinition } from "@dsnp/parquetjs";
+import { coerceValue } from "./coerce.js";
+import type { JsonRecord, ValidationMode } from "./index.js";
+import {
+  detectTemporalType,
+  isTemporalType,
+  TEMPORAL_FORMATS,
+} from "./temporal.js";
+
+/**
+ * Checks a `RecordValidator` applies on top of the per-field type checks and
+ * required fields, which every mode enforces.
+ */
+export interface ValidationRules {
+  /** Every schema field must be present in the record, even if null */
+  requireAllFields: boolean;
+  /** Fields that are not in the schema are accepted and left out of the output */
+  allowExtraFields: boolean;
+  /** Values of another type pass when they can be coerced without loss */
+  coerce: boolean;
+}
+
+export const VALIDATION_RULES: Record<ValidationMode, ValidationRules> = {
+  strict: { requireAllFields: true, allowExtraFields: false, coerce: false },
+  lenient: { requireAllFields: false, allowExtraFields: true, coerce: false },
+  coerce: { requireAllFields: false, allowExtraFields: true, coerce: true },
+};
+
+/**
+ * `constraint` covers other JSON Schema keywords, such as `enum`, `format`
+ * or `minimum`.
+ */
+export type ValidationRule =
+  | "missing"
+  | "required"
+  | "extra"
+  | "type"
+  | "constraint";
+
+/**
+ * A single way in which a record breaks the validation rules.
+ */
+export interface ValidationIssue {
+  /** Path of the field, e.g. `address.city` or `items[].qty` */
+  field: string;
+  rule: ValidationRule;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Checks records and reports every issue found in each.
+ */
+export interface Validator {
+  validate(record: JsonRecord): ValidationResult;
+}
+
+/**
+ * Totals of the validation results of a run.
+ */
+export interface ValidationSummary {
+  checked: number;
+  failed: number;
+  /** Issue counts per field and rule, most frequent first */
+  issues: { field: string; rule: ValidationRule; count: number }[];
+}
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+/**
+ * Validates records against Parquet field definitions, collecting every issue
+ * of a record instead of stopping at the first one.
+ */
+export class RecordValidator implements Validator {
+  /**
+   * `stringified` lists the fields that inference widened to UTF8 because of
+   * mixed value types. Their numbers and booleans are written as text, so
+   * they have the column's type too.
+   */
+  constructor(
+    private readonly fields: Record<string, FieldDefinition>,
+    private readonly rules: ValidationRules,
+    private readonly stringified: ReadonlySet<string> = new Set(),
+  ) {}
+
+  validate(record: JsonRecord): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    this.checkFields(record, this.fields, "", issues);
+    return { valid: issues.length === 0, issues };
+  }
+
+  private checkFields(
+    record: JsonRecord,
+    fields: Record<string, FieldDefinition>,
+    prefix: string,
+    issues: ValidationIssue[],
+  ): void {
+    for (const [name, definition] of Object.entries(fields)) {
+      const field = `${prefix}${name}`;
+      if (name in record) {
+        this.checkValue(record[name], definition, field, issues);
+      } else if (this.rules.requireAllFields) {
+        issues.push({
+          field,
+          rule: "missing",
+          message: `Missing field "${field}"`,
+        });
+      } else {
+        this.checkValue(undefined, definition, field, issues);
+      }
+    }
+
+    if (this.rules.allowExtraFields) return;
+    for (const name of Object.keys(record)) {
+      if (!(name in fields)) {
+        const field = `${prefix}${name}`;
+        issues.push({
+          field,
+          rule: "extra",
+          message: `Unexpected field "${field}"`,
+        });
+      }
+    }
+  }
+
+  private checkValue(
+    value: unknown,
+    definition: FieldDefinition,
+    field: string,
+    issues: ValidationIssue[],
+  ): void {
+    if (value === null || value === undefined) {
+      if (definition.optional === false && !definition.repeated) {
+        issues.push({
+          field,
+          rule: "required",
+          message: `Missing value for required field "${field}"`,
+        });
+      }
+      return;
+    }
+
+    if (definition.repeated) {
+      if (!Array.isArray(value)) {
+        issues.push(typeIssue(value, field, "a list"));
+        return;
+      }
+      const element = { ...definition, repeated: false, optional: true };
+      for (const item of value) {
+        this.checkValue(item, element, `${field}[]`, issues);
+      }
+      return;
+    }
+
+    if (definition.fields) {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        issues.push(typeIssue(value, field, "a group"));
+        return;
+      }
+      this.checkFields(
+        value as JsonRecord,
+        definition.fields,
+        `${field}.`,
+        issues,
+      );
+      return;
+    }
+
+    if (this.rules.coerce) {
+      try {
+        coerceValue(value, definition, field);
+      } catch (error) {
+        issues.push({
+          field,
+          rule: "type",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } else if (
+      !matchesType(value, definition.type) &&
+      !(this.stringified.has(field) && definition.type === "UTF8")
+    ) {
+      issues.push(typeIssue(value, field, definition.type ?? "UTF8"));
+    }
+  }
+}
+
+/**
+ * Tallies validation results for the summary shown at the end of a run.
+ */
+export class ValidationReport {
+  private checked = 0;
+  private failed = 0;
+  private counts = new Map<string, ValidationSummary["issues"][number]>();
+
+  add(result: ValidationResult): void {
+    this.checked++;
+    if (result.valid) return;
+    this.failed++;
+
+    // Count each field and rule once per record
+    const seen = new Set<string>();
+    for (const { field, rule } of result.issues) {
+      const key = `${rule}:${field}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const entry = this.counts.get(key) ?? { field, rule, count: 0 };
+      entry.count++;
+      this.counts.set(key, entry);
+    }
+  }
+
+  summary(): ValidationSummary {
+    return {
+      checked: this.checked,
+      failed: this.failed,
+      issues: [...this.counts.values()]
+        .map((entry) => ({ ...entry }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+}
+
+/**
+ * Returns true when a JSON value already has the representation of the
+ * Parquet type, without any conversion. Objects and arrays match UTF8, which
+ * stores them as JSON text, and temporal strings match temporal types.
+ */
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case undefined:
+      return true;
+    case "UTF8":
+      return (
+        typeof value === "string" ||
+        (typeof value === "object" && !(value instanceof Date))
+      );
+    case "BOOLEAN":
+      return typeof value === "boolean";
+    case "INT32":
+      return (
+        Number.isInteger(value) &&
+        (value as number) >= INT32_MIN &&
+        (value as number) <= INT32_MAX
+      );
+    case "INT64":
+      return Number.isInteger(value) || typeof value === "bigint";
+    case "FLOAT":
+    case "DOUBLE":
+      return typeof value === "number";
+    default:
+      if (isTemporalType(type)) {
+        return (
+          value instanceof Date ||
+          (typeof value === "string" &&
+            detectTemporalType(value, TEMPORAL_FORMATS) !== null)
+        );
+      }
+      return true;
+  }
+}
+
+function typeIssue(
+  value: unknown,
+  field: string,
+  expected: string,
+): ValidationIssue {
+  const kind = Array.isArray(value) ? "array" : typeof value;
+  return {
+    field,
+    rule: "type",
+    message: `Field "${field}" has ${kind} value ${describeValue(value)}, expected ${expected}`,
+  };
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === "bigint") return String(value);
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}